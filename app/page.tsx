@@ -12,19 +12,35 @@ import {
 } from "firebase/auth";
 import {
   collection,
+  collectionGroup,
+  deleteDoc,
+  deleteField,
   doc,
+  DocumentReference,
+  documentId,
   getDoc,
   getDocs,
+  increment,
+  limit,
   onSnapshot,
   orderBy,
   query,
   runTransaction,
   serverTimestamp,
   setDoc,
+  startAfter,
+  Timestamp,
   updateDoc,
+  where,
+  writeBatch,
+  type Query,
+  type QueryDocumentSnapshot,
+  type QuerySnapshot,
+  type Transaction,
 } from "firebase/firestore";
 
 // ====================== Tipos ======================
+type ProductKind = "resale" | "ingredient" | "produced";
 type Product = {
   code: string;
   name: string;
@@ -32,30 +48,387 @@ type Product = {
   margin: number;
   stock: number;
   lowThreshold?: number;
+  kind?: ProductKind; // sin valor = "resale"
+  unit?: string; // unidad de stock de los insumos (kg, l, u…)
+  costSource?: "manual" | "recipe";
+  plu?: string; // PLU de la balanza de etiquetas
+  soldByWeight?: boolean; // stock y coste en kilos; el precio calculado es por kg
+  category?: string; // id en categories
+  lots?: StockLot[]; // stock con vencimiento; lo que exceda la suma de los lotes no vence
 };
 
-type SaleItem = { code: string; name: string; qty: number; price: number; costAtSale?: number };
-type PaymentMethod = "cash" | "transfer";
+// La suma de los lotes nunca supera stock
+type StockLot = { id: string; qty: number; expiry: string; addedAt: string; ref?: string };
+
+type Category = { id: string; name: string; color?: string };
+
+// Teclas rápidas del POS (productos sin código de barras), en páginas; se guardan en settings/config.quickKeys
+type QuickKey = { code: string; label?: string; color?: string };
+type QuickKeyPage = { id: string; name: string; keys: QuickKey[] };
+
+// Etiquetas EAN-13 de balanza: [prefijo 2][PLU][valor][dígito verificador]
+type ScaleBarcodeConfig = {
+  enabled: boolean;
+  prefixes: string; // ej: "20-29" o "20,21,27"
+  pluDigits: number;
+  mode: "price" | "weight";
+  decimals: number;
+  validateCheckDigit: boolean;
+};
+
+type ReceiptConfig = {
+  storeName: string;
+  headerLines: string; // una línea por renglón (dirección, CUIT…)
+  footer: string;
+  paperWidth: 58 | 80;
+  autoPrint: boolean;
+  output: "html" | "escpos";
+};
+
+// Redondeo del precio final: al múltiplo de step más cercano, hacia arriba o terminado en 9 (…9, …99)
+type PriceRounding = { mode: "none" | "nearest" | "up" | "end9"; step: number };
+
+type RecipeItem = { code: string; qty: number };
+// Receta por producto terminado: `items` rinden `yield` unidades
+type Recipe = { productCode: string; yield: number; items: RecipeItem[] };
+type ProductionBatch = {
+  id: string;
+  at: string;
+  user: string;
+  productCode: string;
+  productName: string;
+  batches: number;
+  units: number;
+  unitCost: number;
+  consumed: { code: string; name: string; qty: number; cost: number }[];
+};
+
+// weight: kilos por unidad de qty en líneas pesadas (etiqueta de balanza); el stock se descuenta en kilos
+// discount: parte de las promociones que le toca a la línea (ARS, sobre price * qty)
+type SaleItem = { code: string; name: string; qty: number; price: number; costAtSale?: number; weight?: number; discount?: number };
+
+type PromotionKind = "nxm" | "bundle" | "combo" | "percent";
+// Alcance: codes y/o category (sin ninguno = todo el carrito). Vigencia opcional por fecha, día y horario
+type Promotion = {
+  id: string;
+  name: string;
+  kind: PromotionKind;
+  active: boolean;
+  codes?: string[];
+  category?: string;
+  minQty?: number;
+  paymentMethod?: PaymentMethod;
+  dateFrom?: string; // YYYY-MM-DD
+  dateTo?: string;
+  weekdays?: number[]; // 0 = domingo
+  timeFrom?: string; // HH:MM
+  timeTo?: string;
+  buy?: number; // nxm: lleva buy, paga pay
+  pay?: number;
+  bundleQty?: number; // bundle: bundleQty unidades a price
+  price?: number; // bundle y combo
+  percent?: number;
+};
+type SaleDiscount = { promoId: string; name: string; amount: number };
+// Clave del catálogo de medios de pago ("cash", "transfer", "debit"… o personalizados)
+type PaymentMethod = string;
+type PaymentMethodDef = { key: PaymentMethod; label: string; hint: string; enabled: boolean };
+// Un pago de la venta; label se guarda para mostrar medios personalizados aunque cambie el catálogo
+type SalePayment = { method: PaymentMethod; label: string; amount: number };
 type Sale = {
   id: string;
   at: string;
   items: SaleItem[];
   total: number;
+  subtotal?: number; // antes de promociones
+  discounts?: SaleDiscount[];
   user?: string;
   localDate?: string;
-  paymentMethod?: PaymentMethod;
+  paymentMethod?: PaymentMethod; // ventas viejas (un solo medio)
+  payments?: SalePayment[]; // suman el total
+  cashTendered?: number;
+  change?: number;
+  customerId?: string; // venta con cuenta corriente
+  customerName?: string;
+  sessionId?: string;
+  refunds?: SaleRefund[];
+  refundedTotal?: number;
+  voided?: boolean;
+  offline?: boolean; // se cobró sin conexión y se sincronizó después
+  syncConflicts?: SyncConflict[];
+  pendingSync?: boolean; // solo local: todavía en la cola del navegador
+};
+
+type SyncConflict = { code: string; name: string; reason: string };
+// Venta cobrada sin conexión, guardada en IndexedDB hasta sincronizar
+type PendingSale = {
+  localId: string;
+  createdAt: string;
+  localDate: string;
+  user: string;
+  paymentMethod?: PaymentMethod; // colas guardadas antes de los pagos divididos
+  payments?: SalePayment[];
+  cashTendered?: number;
+  change?: number;
+  customerId?: string;
+  customerName?: string;
+  sessionId: string | null;
+  items: SaleItem[];
+  total: number;
+  subtotal?: number;
+  discounts?: SaleDiscount[];
+};
+// Rechazada por el servidor (no por falta de red): no se reintenta sola
+type FailedSale = PendingSale & { error: string; failedAt: string };
+
+type StockMovementType = "sale" | "refund" | "adjustment" | "import" | "receipt" | "production" | "waste";
+type StockMovement = {
+  id: string;
+  code: string;
+  name: string;
+  type: StockMovementType;
+  delta: number;
+  stockAfter: number;
+  user: string;
+  at: string;
+  ref?: string;
+  reason?: string;
+};
+
+// priceChanges/{id}: inmutables, uno por cambio efectivo de coste o margen
+type PriceChangeSource = "manual" | "bulk" | "import" | "receipt" | "recipe";
+type PriceChange = {
+  id: string;
+  code: string;
+  name: string;
+  source: PriceChangeSource;
+  oldCost: number;
+  newCost: number;
+  oldMargin: number;
+  newMargin: number;
+  oldPrice: number;
+  newPrice: number;
+  localDate: string;
+  user: string;
+  at: string;
+  ref?: string;
+};
+
+type CostMethod = "average" | "last";
+type GoodsReceiptItem = {
+  code: string;
+  name: string;
+  qty: number;
+  unitCost: number;
+  prevStock: number;
+  prevCost: number;
+  newCost: number;
+  expiry?: string; // vencimiento del lote recibido
+};
+type GoodsReceipt = {
+  id: string;
+  at: string;
+  user: string;
+  supplier: string;
+  invoiceNumber: string;
+  costMethod: CostMethod;
+  items: GoodsReceiptItem[];
+  total: number;
+};
+
+type RefundKind = "void" | "partial";
+// line = índice del ítem en Sale.items (PAN puede repetirse con el mismo código)
+type RefundLine = { line: number; code: string; name: string; qty: number; price: number; costAtSale: number };
+type SaleRefund = {
+  id: string;
+  at: string;
+  localDate: string;
+  user: string;
+  reason: string;
+  kind: RefundKind;
+  items: RefundLine[];
+  amount: number;
+  cashAmount?: number; // parte reintegrada en efectivo (sale de la caja)
+  accountAmount?: number; // parte descontada de la cuenta corriente del cliente
+};
+
+// Cuenta corriente (fiado): balance = lo que debe el cliente
+type Customer = { id: string; name: string; phone?: string; notes?: string; balance: number; creditLimit?: number };
+type AccountEntryType = "sale" | "payment" | "refund" | "adjustment";
+// customers/{id}/entries, inmutables; amount > 0 aumenta la deuda
+type AccountEntry = {
+  id: string;
+  at: string;
+  localDate: string;
+  type: AccountEntryType;
+  amount: number;
+  balanceAfter: number;
+  user: string;
+  ref?: string;
+  method?: PaymentMethod; // medio con el que pagó (entradas "payment")
+  note?: string;
+};
+
+// Totales de un día (ventas netas de devoluciones); byMethod reparte cada venta según sus pagos
+type SummaryBucket = { count: number; qty: number; total: number; cost: number; discounts: number; refunds: number };
+type DailySummary = SummaryBucket & {
+  localDate: string;
+  byMethod: Record<PaymentMethod, SummaryBucket & { byCategory?: Record<string, SummaryBucket> }>;
+  byCategory: Record<string, SummaryBucket>;
+  waste: number; // coste de la merma del día
+  wasteByReason: Record<string, number>;
+};
+
+// Merma: lo que se tira, se rompe, se da a probar o se dona; sale del stock a su coste
+type WasteReason = "expired" | "broken" | "tasting" | "donation";
+type WasteItem = { code: string; name: string; qty: number; unitCost: number };
+type WasteRecord = {
+  id: string;
+  at: string;
+  localDate: string;
+  user: string;
+  reason: WasteReason;
+  note?: string;
+  items: WasteItem[];
+  cost: number;
+};
+
+type CashMovementType = "withdrawal" | "deposit";
+type CashMovement = { id: string; type: CashMovementType; amount: number; reason: string; at: string; user: string };
+type CashSession = {
+  id: string;
+  status: "open" | "closed";
+  openedAt: string;
+  openedBy: string;
+  openingFloat: number;
+  cashSales: number;
+  otherSales: number;
+  salesCount: number;
+  deposits: number;
+  withdrawals: number;
+  refunds: number;
+  closedAt?: string;
+  closedBy?: string;
+  countedCash?: number;
+  expectedCash?: number;
+  discrepancy?: number;
+  notes?: string;
+};
+
+type Role = "owner" | "manager" | "cashier";
+type Permission =
+  | "pos.sell"
+  | "stock.view"
+  | "stock.create"
+  | "stock.editPrices"
+  | "stock.editStock"
+  | "stock.import"
+  | "stock.receive"
+  | "stock.waste"
+  | "production.manage"
+  | "promotions.manage"
+  | "history.view"
+  | "sales.void"
+  | "balance.view"
+  | "settings.view"
+  | "settings.edit"
+  | "cash.operate"
+  | "customers.view"
+  | "customers.manage"
+  | "data.backup"
+  | "users.manage";
+type UserRole = { uid: string; email: string; role: Role };
+type Can = (p: Permission) => boolean;
+
+// ====================== Roles y permisos ======================
+type TabKey = "stock" | "recepcion" | "merma" | "produccion" | "promos" | "pos" | "caja" | "clientes" | "historial" | "ajustes" | "balance" | "reportes" | "usuarios";
+
+const TABS: { key: TabKey; label: string; perm: Permission }[] = [
+  { key: "stock", label: "Stock", perm: "stock.view" },
+  { key: "recepcion", label: "Recepción", perm: "stock.receive" },
+  { key: "merma", label: "Merma", perm: "stock.waste" },
+  { key: "produccion", label: "Producción", perm: "production.manage" },
+  { key: "promos", label: "Promociones", perm: "promotions.manage" },
+  { key: "pos", label: "Punto de Venta", perm: "pos.sell" },
+  { key: "caja", label: "Caja", perm: "cash.operate" },
+  { key: "clientes", label: "Clientes", perm: "customers.view" },
+  { key: "historial", label: "Historial", perm: "history.view" },
+  { key: "ajustes", label: "Ajustes", perm: "settings.view" },
+  { key: "balance", label: "Balance", perm: "balance.view" },
+  { key: "reportes", label: "Reportes", perm: "balance.view" },
+  { key: "usuarios", label: "Usuarios", perm: "users.manage" },
+];
+
+const ROLES: Role[] = ["owner", "manager", "cashier"];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: [
+    "pos.sell", "stock.view", "stock.create", "stock.editPrices", "stock.editStock", "stock.import", "stock.receive", "stock.waste", "production.manage",
+    "promotions.manage", "history.view", "sales.void", "balance.view", "settings.view", "settings.edit", "cash.operate",
+    "customers.view", "customers.manage", "data.backup", "users.manage",
+  ],
+  manager: [
+    "pos.sell", "stock.view", "stock.create", "stock.editPrices", "stock.editStock", "stock.import", "stock.receive", "stock.waste", "production.manage",
+    "promotions.manage", "history.view", "sales.void", "settings.view", "settings.edit", "cash.operate",
+    "customers.view", "customers.manage",
+  ],
+  cashier: ["pos.sell", "stock.view", "stock.waste", "history.view", "settings.view", "cash.operate", "customers.view"],
 };
 
+function roleLabel(r: Role) {
+  return r === "owner" ? "Dueño/a" : r === "manager" ? "Encargado/a" : "Cajero/a";
+}
+function hasPermission(role: Role | null, p: Permission) {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(p) ?? false;
+}
+
 // ====================== Utils ======================
 const AR_TZ = "America/Argentina/Buenos_Aires";
 
+// El único medio que mueve el cajón de efectivo
+const CASH_METHOD = "cash";
+// Fiado: la venta se carga a la cuenta corriente de un cliente
+const ACCOUNT_METHOD = "account";
+
+const DEFAULT_PAYMENT_METHODS: PaymentMethodDef[] = [
+  { key: "cash", label: "Efectivo", hint: "Cobro en mano", enabled: true },
+  { key: "transfer", label: "Transferencia", hint: "CBU/Alias", enabled: true },
+  { key: "debit", label: "Débito", hint: "Tarjeta de débito", enabled: true },
+  { key: "credit", label: "Crédito", hint: "Tarjeta de crédito", enabled: true },
+  { key: "qr", label: "QR / Billetera", hint: "Mercado Pago, MODO…", enabled: true },
+  { key: "account", label: "Cuenta corriente", hint: "Fiado a un cliente", enabled: true },
+];
+
+const DEFAULT_RECEIPT_CONFIG: ReceiptConfig = {
+  storeName: "L'Clau Panadería",
+  headerLines: "",
+  footer: "¡Gracias por su compra!",
+  paperWidth: 80,
+  autoPrint: false,
+  output: "html",
+};
+
+const DEFAULT_PRICE_ROUNDING: PriceRounding = { mode: "nearest", step: 10 };
+
+const DEFAULT_SCALE_CONFIG: ScaleBarcodeConfig = {
+  enabled: false,
+  prefixes: "20-29",
+  pluDigits: 5,
+  mode: "price",
+  decimals: 0,
+  validateCheckDigit: true,
+};
+
 function peso(n: number | string) {
   const num = Number(n || 0);
   return num.toLocaleString("es-AR", { style: "currency", currency: "ARS", maximumFractionDigits: 0 });
 }
-function fmtDateTime(iso: string | Date) {
+// Sin timeZone usa la del navegador; el ticket pasa AR_TZ para imprimir la hora del local
+function fmtDateTime(iso: string | Date, timeZone?: string) {
   const d = typeof iso === "string" ? new Date(iso) : iso;
   return d.toLocaleString("es-AR", {
+    ...(timeZone ? { timeZone } : {}),
     year: "numeric", month: "2-digit", day: "2-digit",
     hour: "2-digit", minute: "2-digit",
   });
@@ -65,6 +438,160 @@ function calcPrice(cost: number, margin: number) {
   const m = Number(margin || 0);
   return Math.round(c * (1 + m / 100));
 }
+function roundPrice(price: number, r: PriceRounding) {
+  const step = Math.max(1, Number(r.step || 1));
+  switch (r.mode) {
+    case "nearest": return Math.round(price / step) * step;
+    case "up": return Math.ceil(price / step) * step;
+    case "end9": return Math.ceil((price + 1) / step) * step - 1;
+    default: return price;
+  }
+}
+// Margen que hace que calcPrice(cost, margen) dé exactamente el precio buscado
+function marginForPrice(cost: number, price: number, fallback: number) {
+  if (!(cost > 0)) return fallback;
+  return Math.round((price / cost - 1) * 100 * 10000) / 10000;
+}
+// Coste promedio ponderado tras recibir `qty` unidades a `unitCost`.
+// Un stock previo negativo no aporta coste (se toma como 0).
+function weightedAverageCost(prevStock: number, prevCost: number, qty: number, unitCost: number) {
+  const s = Math.max(0, Number(prevStock || 0));
+  const q = Number(qty || 0);
+  if (s + q <= 0) return Number(unitCost || 0);
+  return Math.round(((s * Number(prevCost || 0) + q * Number(unitCost || 0)) / (s + q)) * 100) / 100;
+}
+function ean13CheckDigitOk(code: string) {
+  if (!/^\d{13}$/.test(code)) return false;
+  const d = code.split("").map(Number);
+  const sum = d.slice(0, 12).reduce((acc, n, i) => acc + n * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10 === d[12];
+}
+function parsePrefixes(spec: string) {
+  const out = new Set<string>();
+  for (const part of String(spec || "").split(",").map((x) => x.trim()).filter(Boolean)) {
+    const [a, b] = part.split("-").map((x) => Number(x.trim()));
+    if (!Number.isFinite(a)) continue;
+    const end = Number.isFinite(b) ? b : a;
+    for (let n = a; n <= end; n++) out.add(String(n).padStart(2, "0"));
+  }
+  return out;
+}
+// Devuelve null si el código no es una etiqueta de balanza; lanza si lo es pero está mal formada
+function parseScaleBarcode(code: string, cfg: ScaleBarcodeConfig): { plu: string; value: number } | null {
+  if (!cfg.enabled || !/^\d{13}$/.test(code)) return null;
+  if (!parsePrefixes(cfg.prefixes).has(code.slice(0, 2))) return null;
+  const valueDigits = 13 - 2 - cfg.pluDigits - 1;
+  if (cfg.pluDigits <= 0 || valueDigits <= 0) return null;
+  if (cfg.validateCheckDigit && !ean13CheckDigitOk(code)) throw new Error("Etiqueta de balanza con dígito verificador inválido");
+  const plu = code.slice(2, 2 + cfg.pluDigits);
+  const value = Number(code.slice(2 + cfg.pluDigits, 12)) / Math.pow(10, cfg.decimals || 0);
+  return { plu, value };
+}
+function normalizePlu(v: string) {
+  return String(v || "").trim().replace(/^0+(?=\d)/, "");
+}
+// Cantidad de stock que consume una línea del carrito (kilos en líneas pesadas)
+function stockQtyOf(i: Pick<SaleItem, "qty" | "weight">) {
+  return i.weight != null ? i.weight * i.qty : i.qty;
+}
+function lotsTotal(lots?: StockLot[]) {
+  return roundKg((lots ?? []).reduce((acc, l) => acc + l.qty, 0));
+}
+function newLot(qty: number, expiry: string, ref?: string): StockLot {
+  return { id: crypto.randomUUID(), qty, expiry, addedAt: todayLocalDateAR(), ...(ref ? { ref } : {}) };
+}
+// FEFO: las salidas consumen primero el lote que vence antes; lo que falte sale del stock sin lote
+function consumeLots(lots: StockLot[], qty: number): StockLot[] {
+  let left = qty;
+  return [...lots]
+    .sort((a, b) => a.expiry.localeCompare(b.expiry))
+    .map((l) => {
+      const take = Math.min(l.qty, Math.max(0, left));
+      left -= take;
+      return { ...l, qty: roundKg(l.qty - take) };
+    })
+    .filter((l) => l.qty > 0);
+}
+// Tras un ajuste o importación el stock puede quedar por debajo de los lotes: se recortan por FEFO
+function fitLots(lots: StockLot[], stock: number): StockLot[] {
+  const excess = lotsTotal(lots) - Math.max(0, stock);
+  return excess > 0 ? consumeLots(lots, excess) : lots;
+}
+// costAtSale es por unidad de qty: en líneas pesadas, coste/kg × kilos
+// Importe cobrado por la línea, ya con su parte de las promociones
+function netLine(i: SaleItem) {
+  return i.price * i.qty - (i.discount ?? 0);
+}
+function lineCostAtSale(i: Pick<SaleItem, "weight">, cost: number) {
+  return i.weight != null ? Math.round(cost * i.weight * 100) / 100 : cost;
+}
+// Stock en kilos a 3 decimales (gramos): evita arrastrar restos como 4.449999999 de sumas y restas
+function roundKg(kg: number) {
+  return Math.round(kg * 1000) / 1000;
+}
+function fmtKg(kg: number) {
+  return Number(kg || 0).toLocaleString("es-AR", { maximumFractionDigits: 3 });
+}
+function categoryName(categories: Category[], id?: string) {
+  if (!id) return "Sin categoría";
+  return categories.find((c) => c.id === id)?.name ?? id;
+}
+// Acepta id o nombre (sin distinguir mayúsculas), como viene en los archivos de importación
+function findCategory(categories: Category[], value: string) {
+  const v = value.trim().toLowerCase();
+  return categories.find((c) => c.id === value.trim() || c.name.toLowerCase() === v);
+}
+function kindLabel(k?: ProductKind) {
+  return k === "ingredient" ? "Insumo" : k === "produced" ? "Elaborado" : "Reventa";
+}
+// Coste por unidad terminada según el coste actual de los insumos
+function recipeUnitCost(recipe: Recipe, productsMap: Map<string, Product>) {
+  if (!recipe.yield || recipe.yield <= 0) return 0;
+  const batchCost = recipe.items.reduce((acc, it) => acc + Number(productsMap.get(it.code)?.cost || 0) * Number(it.qty || 0), 0);
+  return Math.round((batchCost / recipe.yield) * 100) / 100;
+}
+// Lee en la transacción los productos indicados (sin repetir) para calcular con valores actuales
+async function readProductsTx(tx: Transaction, codes: string[]) {
+  const unique = Array.from(new Set(codes));
+  const snaps = await Promise.all(unique.map((code) => tx.get(doc(db, "products", code))));
+  const fresh = new Map<string, Product>();
+  snaps.forEach((snap, i) => { if (snap.exists()) fresh.set(unique[i], snap.data() as Product); });
+  return fresh;
+}
+// Minúsculas y sin acentos: "cafe" encuentra "Café"
+function foldText(s: string) {
+  return s.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+// Puntaje de coincidencia por nombre: prefijo > inicio de palabra > contiene > letras en orden (0 = no coincide)
+function matchScore(name: string, query: string) {
+  const n = foldText(name);
+  const tokens = foldText(query).split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return 0;
+  let score = 0;
+  for (const t of tokens) {
+    const idx = n.indexOf(t);
+    if (idx === 0) score += 4;
+    else if (idx > 0 && n[idx - 1] === " ") score += 3;
+    else if (idx > 0) score += 2;
+    else {
+      // subsecuencia: "mdl" encuentra "medialuna"
+      let k = 0;
+      for (const ch of n) if (ch === t[k]) k++;
+      if (k < t.length) return 0;
+      score += 1;
+    }
+  }
+  return score;
+}
+function searchProducts(products: Product[], query: string, max = 8) {
+  return products
+    .filter((p) => p.kind !== "ingredient")
+    .map((p) => ({ p, score: Math.max(matchScore(p.name, query), foldText(p.code).startsWith(foldText(query.trim())) ? 2 : 0) }))
+    .filter((x) => x.score > 0)
+    .sort((a, b) => b.score - a.score || a.p.name.localeCompare(b.p.name))
+    .slice(0, max)
+    .map((x) => x.p);
+}
 function parseNumberOrZero(v: string) {
   const n = Number(String(v).replace(",", "."));
   return Number.isFinite(n) ? n : 0;
@@ -75,8 +602,199 @@ function todayLocalDateAR() {
   const [y, m, d] = fmt.format(now).split("-");
   return `${y}-${m}-${d}`; // YYYY-MM-DD
 }
+function toISO(v: any) {
+  return v?.toDate?.()?.toISOString?.() || new Date().toISOString();
+}
+// Suma días a una fecha YYYY-MM-DD (sin horas: no le afectan los husos)
+function shiftLocalDate(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+// Cantidad de días entre dos fechas YYYY-MM-DD, ambas incluidas
+function localDateSpan(from: string, to: string) {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000) + 1;
+}
+function downloadCSV(rows: (string | number)[][], filename: string) {
+  const csv = rows.map(r => r.map(v => typeof v === "string" && v.includes(",") ? `"${v.replace(/"/g,'""')}"` : v).join(",")).join("\n");
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
+}
+// Efectivo esperado en el cajón: fondo inicial + ventas en efectivo + ingresos − retiros − devoluciones
+function expectedCash(s: Pick<CashSession, "openingFloat" | "cashSales" | "deposits" | "withdrawals" | "refunds">) {
+  return Number(s.openingFloat || 0) + Number(s.cashSales || 0) + Number(s.deposits || 0)
+    - Number(s.withdrawals || 0) - Number(s.refunds || 0);
+}
+function movementLabel(t: StockMovementType) {
+  switch (t) {
+    case "sale": return "Venta";
+    case "refund": return "Devolución";
+    case "adjustment": return "Ajuste manual";
+    case "import": return "Importación";
+    case "receipt": return "Recepción";
+    case "production": return "Producción";
+    case "waste": return "Merma";
+  }
+}
+// Los movimientos de stock son inmutables: siempre se escriben en la misma
+// transacción/batch que modifica products.stock
+function addStockMovement(
+  w: { set: (ref: DocumentReference, data: any) => unknown },
+  m: Omit<StockMovement, "id" | "at" | "user">,
+) {
+  const ref = doc(collection(db, "stockMovements"));
+  w.set(ref, {
+    ...m,
+    reason: m.reason ?? "",
+    ref: m.ref ?? "",
+    user: auth.currentUser?.email ?? "desconocido",
+    at: serverTimestamp(),
+  });
+}
+// Igual que los de stock, pero también fija customers.balance = balanceAfter en la misma escritura.
+// lastEntry apunta a la entrada: las reglas comprueban contra ella el saldo que escribe un cajero/a.
+function addAccountEntry(
+  w: { set: (ref: DocumentReference, data: any) => unknown; update: (ref: DocumentReference, data: any) => unknown },
+  customerId: string,
+  e: Omit<AccountEntry, "id" | "at" | "user" | "localDate"> & { localDate?: string },
+) {
+  const ref = doc(collection(db, "customers", customerId, "entries"));
+  w.update(doc(db, "customers", customerId), { balance: e.balanceAfter, lastEntry: ref.id });
+  w.set(ref, {
+    ...e,
+    note: e.note ?? "",
+    ref: e.ref ?? "",
+    localDate: e.localDate ?? todayLocalDateAR(),
+    user: auth.currentUser?.email ?? "desconocido",
+    at: serverTimestamp(),
+  });
+}
+// Igual que los movimientos de stock: en la misma escritura que cambia cost/margin.
+// Si coste y margen quedan iguales no se registra nada.
+function addPriceChange(
+  w: { set: (ref: DocumentReference, data: any) => unknown },
+  code: string,
+  before: Pick<Product, "name" | "cost" | "margin">,
+  next: { cost: number; margin: number },
+  source: PriceChangeSource,
+  ref?: string,
+) {
+  const oldCost = Number(before.cost || 0);
+  const oldMargin = Number(before.margin || 0);
+  if (next.cost === oldCost && next.margin === oldMargin) return;
+  w.set(doc(collection(db, "priceChanges")), {
+    code,
+    name: before.name,
+    source,
+    oldCost,
+    newCost: next.cost,
+    oldMargin,
+    newMargin: next.margin,
+    oldPrice: calcPrice(oldCost, oldMargin),
+    newPrice: calcPrice(next.cost, next.margin),
+    ref: ref ?? "",
+    localDate: todayLocalDateAR(),
+    user: auth.currentUser?.email ?? "desconocido",
+    at: serverTimestamp(),
+  });
+}
+function priceChangeSourceLabel(s: PriceChangeSource) {
+  switch (s) {
+    case "manual": return "Edición";
+    case "bulk": return "Actualización en lote";
+    case "import": return "Importación";
+    case "receipt": return "Recepción";
+    case "recipe": return "Receta";
+  }
+}
+function docToPriceChange(id: string, data: any): PriceChange {
+  return {
+    id,
+    code: data.code,
+    name: data.name || "",
+    source: data.source,
+    oldCost: Number(data.oldCost || 0),
+    newCost: Number(data.newCost || 0),
+    oldMargin: Number(data.oldMargin || 0),
+    newMargin: Number(data.newMargin || 0),
+    oldPrice: Number(data.oldPrice || 0),
+    newPrice: Number(data.newPrice || 0),
+    localDate: data.localDate || "",
+    user: data.user || "",
+    at: toISO(data.at),
+    ref: data.ref || undefined,
+  };
+}
+function accountEntryLabel(t: AccountEntryType) {
+  return t === "sale" ? "Compra" : t === "payment" ? "Pago" : t === "refund" ? "Devolución" : "Ajuste";
+}
+function docToStockMovement(id: string, data: any): StockMovement {
+  return {
+    id,
+    code: data.code,
+    name: data.name || "",
+    type: data.type,
+    delta: Number(data.delta || 0),
+    stockAfter: Number(data.stockAfter || 0),
+    user: data.user || "",
+    at: toISO(data.at),
+    ref: data.ref || undefined,
+    reason: data.reason || undefined,
+  };
+}
+function refundedQtyByLine(refunds?: SaleRefund[]) {
+  const acc: Record<number, number> = {};
+  for (const r of refunds ?? []) {
+    for (const l of r.items) acc[l.line] = (acc[l.line] || 0) + l.qty;
+  }
+  return acc;
+}
+// Catálogo guardado en settings/config.paymentMethods; el efectivo siempre queda habilitado
+function mergePaymentMethods(saved?: PaymentMethodDef[]): PaymentMethodDef[] {
+  const list = (saved ?? []).filter((m) => m?.key);
+  const merged = DEFAULT_PAYMENT_METHODS.map((d) => ({ ...d, ...(list.find((m) => m.key === d.key) ?? {}) }));
+  for (const m of list) if (!merged.some((d) => d.key === m.key)) merged.push({ ...m, hint: m.hint ?? "", enabled: m.enabled ?? true });
+  return merged.map((m) => (m.key === CASH_METHOD ? { ...m, enabled: true } : m));
+}
 function pmLabel(m?: PaymentMethod) {
-  return m === "transfer" ? "TRANSFERENCIA" : "EFECTIVO";
+  const def = DEFAULT_PAYMENT_METHODS.find((d) => d.key === (m ?? CASH_METHOD));
+  return (def?.label ?? m ?? "").toUpperCase();
+}
+// Ventas viejas guardan un único paymentMethod; las nuevas, la lista de pagos
+function salePayments(s: { payments?: SalePayment[]; paymentMethod?: PaymentMethod; total: number }): SalePayment[] {
+  if (s.payments && s.payments.length > 0) return s.payments;
+  const method = s.paymentMethod ?? CASH_METHOD;
+  return [{ method, label: pmLabel(method), amount: s.total }];
+}
+function paymentsLabel(s: { payments?: SalePayment[]; paymentMethod?: PaymentMethod; total: number }) {
+  return salePayments(s).map((p) => p.label.toUpperCase()).join(" + ");
+}
+function paymentsDetail(s: { payments?: SalePayment[]; paymentMethod?: PaymentMethod; total: number }) {
+  return salePayments(s).map((p) => `${p.label}: ${p.amount}`).join(" | ");
+}
+function cashOf(payments: SalePayment[]) {
+  return payments.filter((p) => p.method === CASH_METHOD).reduce((acc, p) => acc + p.amount, 0);
+}
+function accountOf(payments: SalePayment[]) {
+  return payments.filter((p) => p.method === ACCOUNT_METHOD).reduce((acc, p) => acc + p.amount, 0);
+}
+// Campos de pago que se graban en la venta
+function paymentFields(payments: SalePayment[], cashTendered?: number, customer?: Customer | null) {
+  return {
+    payments,
+    // Para filtrar por medio en Firestore (array-contains)
+    methods: Array.from(new Set(payments.map((p) => p.method))),
+    ...(payments.length === 1 ? { paymentMethod: payments[0].method } : {}),
+    ...(cashTendered != null ? { cashTendered, change: cashTendered - cashOf(payments) } : {}),
+    ...(customer && accountOf(payments) > 0 ? { customerId: customer.id, customerName: customer.name } : {}),
+  };
+}
+function cashSessionSaleUpdate(payments: SalePayment[], total: number) {
+  const cash = cashOf(payments);
+  return { cashSales: increment(cash), otherSales: increment(total - cash), salesCount: increment(1) };
 }
 function isTypingInInput() {
   const el = document.activeElement as HTMLElement | null;
@@ -86,6 +804,183 @@ function isTypingInInput() {
   return tag === "input" || tag === "textarea" || editable;
 }
 
+// ====================== RESÚMENES DIARIOS ======================
+// dailySummaries/{YYYY-MM-DD}: se suman en la misma transacción que la venta o la devolución,
+// así el balance lee un documento por día en lugar de todas las ventas
+const NO_CATEGORY = "_none";
+
+type SummaryLine = { code: string; qty: number; amount: number; cost: number; discount: number };
+
+function emptyBucket(): SummaryBucket {
+  return { count: 0, qty: 0, total: 0, cost: 0, discounts: 0, refunds: 0 };
+}
+function addBucket(into: SummaryBucket, b: SummaryBucket) {
+  into.count += b.count; into.qty += b.qty; into.total += b.total;
+  into.cost += b.cost; into.discounts += b.discounts; into.refunds += b.refunds;
+}
+function emptySummary(localDate: string): DailySummary {
+  return { localDate, ...emptyBucket(), byMethod: {}, byCategory: {}, waste: 0, wasteByReason: {} };
+}
+function saleSummaryLines(items: SaleItem[]): SummaryLine[] {
+  return items.map((it) => ({
+    code: it.code,
+    qty: stockQtyOf(it),
+    amount: netLine(it),
+    cost: Number(it.costAtSale ?? 0) * Number(it.qty),
+    discount: Number(it.discount ?? 0),
+  }));
+}
+function refundSummaryLines(r: SaleRefund, items: SaleItem[]): SummaryLine[] {
+  return r.items.map((it) => ({
+    code: it.code,
+    qty: stockQtyOf({ qty: it.qty, weight: items[it.line]?.weight }),
+    amount: Number(it.price) * Number(it.qty),
+    cost: Number(it.costAtSale ?? 0) * Number(it.qty),
+    discount: 0,
+  }));
+}
+// Suma a `into` lo que aporta una venta o devolución. Con pagos divididos, cada medio
+// se lleva la parte proporcional a lo que cubrió del total.
+function tallySummary(
+  into: DailySummary,
+  lines: SummaryLine[],
+  payments: SalePayment[],
+  saleTotal: number,
+  categoryOf: (code: string) => string | undefined,
+  refund: boolean,
+) {
+  const sign = refund ? -1 : 1;
+  const bucketOf = (l: SummaryLine, share: number): SummaryBucket => ({
+    count: 0,
+    qty: sign * l.qty * share,
+    total: sign * l.amount * share,
+    cost: sign * l.cost * share,
+    discounts: refund ? 0 : l.discount * share,
+    refunds: refund ? l.amount * share : 0,
+  });
+  if (!refund) into.count += 1;
+  for (const l of lines) {
+    const cat = categoryOf(l.code) || NO_CATEGORY;
+    addBucket(into, bucketOf(l, 1));
+    addBucket((into.byCategory[cat] ??= emptyBucket()), bucketOf(l, 1));
+  }
+  for (const p of payments) {
+    const share = saleTotal > 0 ? p.amount / saleTotal : 1 / payments.length;
+    const m = (into.byMethod[p.method] ??= { ...emptyBucket(), byCategory: {} });
+    if (!refund) m.count += 1;
+    for (const l of lines) {
+      const cat = categoryOf(l.code) || NO_CATEGORY;
+      addBucket(m, bucketOf(l, share));
+      addBucket((m.byCategory![cat] ??= emptyBucket()), bucketOf(l, share));
+    }
+  }
+  return into;
+}
+function tallyWaste(into: DailySummary, reason: WasteReason, cost: number) {
+  into.waste += cost;
+  into.wasteByReason[reason] = (into.wasteByReason[reason] ?? 0) + cost;
+  return into;
+}
+// Los números pasan a increment() para que dos cajas puedan sumar al mismo día a la vez
+function incrementTree(v: any): any {
+  if (typeof v === "number") return increment(v);
+  return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, incrementTree(x)]));
+}
+function addToDailySummary(
+  w: { set: (ref: DocumentReference, data: any, options: { merge: boolean }) => unknown },
+  s: DailySummary,
+) {
+  const { localDate, ...rest } = s;
+  w.set(doc(db, "dailySummaries", localDate), { localDate, ...incrementTree(rest), updatedAt: serverTimestamp() }, { merge: true });
+}
+function docToBucket(data: any): SummaryBucket {
+  return {
+    count: Number(data?.count || 0),
+    qty: Number(data?.qty || 0),
+    total: Number(data?.total || 0),
+    cost: Number(data?.cost || 0),
+    discounts: Number(data?.discounts || 0),
+    refunds: Number(data?.refunds || 0),
+  };
+}
+function docToDailySummary(id: string, data: any): DailySummary {
+  const cats = (o: any) => Object.fromEntries(Object.entries(o || {}).map(([k, b]) => [k, docToBucket(b)]));
+  return {
+    localDate: data.localDate || id,
+    ...docToBucket(data),
+    byMethod: Object.fromEntries(Object.entries(data.byMethod || {}).map(([k, b]: [string, any]) => [k, { ...docToBucket(b), byCategory: cats(b?.byCategory) }])),
+    byCategory: cats(data.byCategory),
+    waste: Number(data.waste || 0),
+    wasteByReason: Object.fromEntries(Object.entries(data.wasteByReason || {}).map(([k, v]) => [k, Number(v || 0)])),
+  };
+}
+// Recalcula todos los resúmenes desde las ventas (para datos anteriores o si quedaron
+// desfasados). La categoría es la actual del producto: las ventas viejas no la guardan.
+// De paso completa `methods` en las ventas anteriores al filtro por medio del historial.
+async function rebuildDailySummaries(products: Product[], onProgress: (salesRead: number) => void) {
+  const catOf = new Map(products.map((p) => [p.code, p.category]));
+  const categoryOf = (code: string) => catOf.get(code);
+  const byDate = new Map<string, DailySummary>();
+  const summaryFor = (d: string) => {
+    let s = byDate.get(d);
+    if (!s) { s = emptySummary(d); byDate.set(d, s); }
+    return s;
+  };
+
+  const withoutMethods: { ref: DocumentReference; methods: PaymentMethod[] }[] = [];
+  let read = 0;
+  let last: QueryDocumentSnapshot | null = null;
+  for (;;) {
+    const qy: Query = last
+      ? query(collection(db, "sales"), orderBy("localDate"), startAfter(last), limit(BATCH_LIMIT))
+      : query(collection(db, "sales"), orderBy("localDate"), limit(BATCH_LIMIT));
+    const page = await getDocs(qy);
+    if (page.empty) break;
+    page.docs.forEach((d) => {
+      const s: any = d.data();
+      if (!s.localDate) return;
+      const items: SaleItem[] = s.items || [];
+      const payments = salePayments({ payments: s.payments, paymentMethod: s.paymentMethod, total: Number(s.total || 0) });
+      if (!Array.isArray(s.methods)) withoutMethods.push({ ref: d.ref, methods: Array.from(new Set(payments.map((p) => p.method))) });
+      tallySummary(summaryFor(s.localDate), saleSummaryLines(items), payments, Number(s.total || 0), categoryOf, false);
+      for (const r of (s.refunds || []) as SaleRefund[]) {
+        tallySummary(summaryFor(r.localDate ?? s.localDate), refundSummaryLines(r, items), payments, Number(s.total || 0), categoryOf, true);
+      }
+    });
+    read += page.size;
+    onProgress(read);
+    last = page.docs[page.docs.length - 1];
+    if (page.size < BATCH_LIMIT) break;
+  }
+
+  let lastWaste: QueryDocumentSnapshot | null = null;
+  for (;;) {
+    const qy: Query = lastWaste
+      ? query(collection(db, "waste"), orderBy("localDate"), startAfter(lastWaste), limit(BATCH_LIMIT))
+      : query(collection(db, "waste"), orderBy("localDate"), limit(BATCH_LIMIT));
+    const page = await getDocs(qy);
+    page.docs.forEach((d) => {
+      const w: any = d.data();
+      if (w.localDate) tallyWaste(summaryFor(w.localDate), w.reason, Number(w.cost || 0));
+    });
+    if (page.size < BATCH_LIMIT) break;
+    lastWaste = page.docs[page.docs.length - 1];
+  }
+
+  // Se reescriben completos y se borran los días que ya no tienen ventas ni merma
+  const existing = await getDocs(collection(db, "dailySummaries"));
+  const writes: ((b: ReturnType<typeof writeBatch>) => void)[] = [];
+  byDate.forEach((s) => writes.push((b) => b.set(doc(db, "dailySummaries", s.localDate), { ...s, updatedAt: serverTimestamp() })));
+  existing.docs.forEach((d) => { if (!byDate.has(d.id)) writes.push((b) => b.delete(d.ref)); });
+  withoutMethods.forEach((m) => writes.push((b) => b.update(m.ref, { methods: m.methods })));
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + BATCH_LIMIT).forEach((w) => w(batch));
+    await batch.commit();
+  }
+  return { sales: read, days: byDate.size };
+}
+
 // ====================== Hooks ======================
 function useAuthSession() {
   const [ready, setReady] = useState(false);
@@ -97,6 +992,33 @@ function useAuthSession() {
   return { ready, user };
 }
 
+// Rol de la usuaria en userRoles/{uid}. Si no existe se crea como cajero/a;
+// el primer dueño/a se asigna a mano desde la consola de Firebase.
+function useUserRole(user: any) {
+  const [ready, setReady] = useState(false);
+  const [role, setRole] = useState<Role | null>(null);
+  useEffect(() => {
+    if (!user?.uid) { setRole(null); setReady(false); return; }
+    const ref = doc(db, "userRoles", user.uid);
+    const unsub = onSnapshot(ref, async (snap) => {
+      if (!snap.exists()) {
+        try {
+          await setDoc(ref, { email: user.email ?? "", role: "cashier", createdAt: serverTimestamp() });
+        } catch {
+          setRole(null);
+          setReady(true);
+        }
+        return;
+      }
+      const data = snap.data() as any;
+      setRole(ROLES.includes(data?.role) ? (data.role as Role) : null);
+      setReady(true);
+    }, () => { setRole(null); setReady(true); });
+    return () => unsub();
+  }, [user?.uid]);
+  return { ready, role };
+}
+
 function useProducts() {
   const [products, setProducts] = useState<Product[]>([]);
   useEffect(() => {
@@ -112,882 +1034,5872 @@ function useProducts() {
   return products;
 }
 
-function useSales() {
-  const [sales, setSales] = useState<Sale[]>([]);
+function useRecipes() {
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  useEffect(() => {
+    const unsub = onSnapshot(collection(db, "recipes"), (snap) => {
+      const arr: Recipe[] = [];
+      snap.forEach((d) => {
+        const data: any = d.data();
+        arr.push({ productCode: d.id, yield: Number(data.yield || 0), items: data.items || [] });
+      });
+      setRecipes(arr);
+    });
+    return () => unsub();
+  }, []);
+  return recipes;
+}
+
+function useCategories() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  useEffect(() => {
+    const qy = query(collection(db, "categories"), orderBy("name"));
+    const unsub = onSnapshot(qy, (snap) => {
+      const arr: Category[] = [];
+      snap.forEach((d) => {
+        const data: any = d.data();
+        arr.push({ id: d.id, name: data.name || d.id, ...(data.color ? { color: data.color } : {}) });
+      });
+      setCategories(arr);
+    });
+    return () => unsub();
+  }, []);
+  return categories;
+}
+
+function useCustomers() {
+  const [customers, setCustomers] = useState<Customer[]>([]);
   useEffect(() => {
-    const qy = query(collection(db, "sales"), orderBy("at", "desc"));
+    const qy = query(collection(db, "customers"), orderBy("name"));
     const unsub = onSnapshot(qy, (snap) => {
-      const arr: Sale[] = [];
+      const arr: Customer[] = [];
       snap.forEach((d) => {
         const data: any = d.data();
         arr.push({
           id: d.id,
-          at: data.at?.toDate?.()?.toISOString?.() || new Date().toISOString(),
-          items: data.items || [],
-          total: data.total || 0,
-          user: data.user,
-          localDate: data.localDate,
-          paymentMethod: data.paymentMethod as PaymentMethod | undefined,
+          name: data.name || "",
+          phone: data.phone,
+          notes: data.notes,
+          balance: Number(data.balance || 0),
+          creditLimit: data.creditLimit != null ? Number(data.creditLimit) : undefined,
         });
       });
-      setSales(arr);
+      setCustomers(arr);
     });
     return () => unsub();
   }, []);
-  return [sales, setSales] as const;
+  return customers;
 }
 
-// ====================== Auth/Login ======================
-function Login({ onLogin }: { onLogin: () => void }) {
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [mode, setMode] = useState<"login" | "signup">("login");
+function usePromotions() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  useEffect(() => {
+    const unsub = onSnapshot(collection(db, "promotions"), (snap) => {
+      const arr: Promotion[] = [];
+      snap.forEach((d) => {
+        const data: any = d.data();
+        arr.push({ ...data, id: d.id, name: data.name || "", kind: data.kind, active: data.active !== false });
+      });
+      arr.sort((a, b) => a.name.localeCompare(b.name));
+      setPromotions(arr);
+    });
+    return () => unsub();
+  }, []);
+  return promotions;
+}
 
-  const submit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    try {
-      if (mode === "login") {
-        await signInWithEmailAndPassword(auth, email, password);
-        toast.success("Sesión iniciada");
-      } else {
-        await createUserWithEmailAndPassword(auth, email, password);
-        toast.success("Usuario creado");
-      }
-      onLogin();
-    } catch (err: any) {
-      toast.error(err?.message || "Error de autenticación");
-    }
+function docToSale(id: string, data: any): Sale {
+  return {
+    id,
+    at: data.at?.toDate?.()?.toISOString?.() || new Date().toISOString(),
+    items: data.items || [],
+    total: data.total || 0,
+    subtotal: data.subtotal,
+    discounts: data.discounts,
+    user: data.user,
+    localDate: data.localDate,
+    paymentMethod: data.paymentMethod as PaymentMethod | undefined,
+    payments: data.payments,
+    cashTendered: data.cashTendered,
+    change: data.change,
+    customerId: data.customerId,
+    customerName: data.customerName,
+    sessionId: data.sessionId,
+    refunds: data.refunds || [],
+    refundedTotal: Number(data.refundedTotal || 0),
+    voided: !!data.voided,
+    offline: !!data.offline,
+    syncConflicts: data.syncConflicts,
   };
-
-  return (
-    <div className="min-h-screen grid place-items-center bg-slate-50 p-6">
-      <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 border">
-        <h1 className="text-2xl font-semibold mb-1">{mode === "login" ? "Iniciar sesión" : "Crear usuario"}</h1>
-        <p className="text-slate-500 mb-4">{mode === "login" ? "Ingresá tus credenciales" : "Habilitá Email/Password en Firebase Auth"}</p>
-        <form onSubmit={submit} className="space-y-3">
-          <div>
-            <label className="text-sm">Email</label>
-            <input className="w-full border rounded-lg p-2 mt-1" placeholder="usuario@dominio.com" value={email} onChange={e=>setEmail(e.target.value)} />
-          </div>
-          <div>
-            <label className="text-sm">Contraseña</label>
-            <input type="password" className="w-full border rounded-lg p-2 mt-1" placeholder="••••••••" value={password} onChange={e=>setPassword(e.target.value)} />
-          </div>
-          <div className="flex gap-2 pt-2">
-            <button className="flex-1 bg-black text-white rounded-lg py-2">{
-              mode === "login" ? "Entrar" : "Crear y entrar"
-            }</button>
-            <button type="button" className="flex-1 border rounded-lg py-2" onClick={()=>setMode(mode==="login"?"signup":"login")}>
-              {mode === "login" ? "Crear usuario" : "Ya tengo usuario"}
-            </button>
-          </div>
-        </form>
-      </div>
-    </div>
-  );
 }
 
-// ====================== STOCK ======================
-function StockTab({ products }: { products: Product[] }) {
-  const [q, setQ] = useState("");
-  const [form, setForm] = useState({ name: "", code: "", cost: "", margin: 50, stock: 0, lowThreshold: "" as any });
-  const price = calcPrice(Number(form.cost||0), Number(form.margin||0));
+type SalesFilter = { from: string; to: string; method: "all" | PaymentMethod; user: string };
+const SALES_PAGE_SIZE = 50;
 
-  const filtered = useMemo(() => {
-    const t = q.trim().toLowerCase();
-    if (!t) return products;
-    return products.filter((p) => [p.name, p.code].some((f) => String(f).toLowerCase().includes(t)));
-  }, [products, q]);
+// Ventas de un rango de fechas, de la más nueva a la más vieja, filtradas en Firestore
+// (requiere los índices compuestos listados en el README)
+function salesQuery(f: SalesFilter, pageSize: number, after?: QueryDocumentSnapshot | null) {
+  const parts = [
+    where("localDate", ">=", f.from),
+    where("localDate", "<=", f.to),
+    ...(f.method !== "all" ? [where("methods", "array-contains", f.method)] : []),
+    ...(f.user.trim() ? [where("user", "==", f.user.trim())] : []),
+    orderBy("localDate", "desc"),
+    orderBy("at", "desc"),
+    ...(after ? [startAfter(after)] : []),
+    limit(pageSize),
+  ];
+  return query(collection(db, "sales"), ...parts);
+}
 
-  const addProduct = async () => {
-    if (!form.name || !form.code) { toast.error("Completá nombre y código"); return; }
-    const code = String(form.code).trim();
-    const ref = doc(db, "products", code);
-    const snap = await getDoc(ref);
-    if (snap.exists()) { toast.error("Ya existe un producto con ese código"); return; }
-    const payload: Product = {
-      code,
-      name: form.name.trim(),
-      cost: Number(form.cost||0),
-      margin: Number(form.margin||0),
-      stock: Number(form.stock||0),
-      lowThreshold: form.lowThreshold === "" ? undefined : Number(form.lowThreshold),
+function docToCashSession(id: string, data: any): CashSession {
+  return {
+    id,
+    status: data.status === "closed" ? "closed" : "open",
+    openedAt: toISO(data.openedAt),
+    openedBy: data.openedBy || "",
+    openingFloat: Number(data.openingFloat || 0),
+    cashSales: Number(data.cashSales || 0),
+    otherSales: Number(data.otherSales || 0),
+    salesCount: Number(data.salesCount || 0),
+    deposits: Number(data.deposits || 0),
+    withdrawals: Number(data.withdrawals || 0),
+    refunds: Number(data.refunds || 0),
+    closedAt: data.closedAt ? toISO(data.closedAt) : undefined,
+    closedBy: data.closedBy,
+    countedCash: data.countedCash,
+    expectedCash: data.expectedCash,
+    discrepancy: data.discrepancy,
+    notes: data.notes,
+  };
+}
+
+// Sesión de caja abierta (una sola caja por local)
+// cashRegister/current = { openSessionId }: se lee y escribe en la transacción que abre o cierra la caja
+function cashRegisterRef() {
+  return doc(db, "cashRegister", "current");
+}
+function useOpenCashSession() {
+  const [session, setSession] = useState<CashSession | null>(null);
+  useEffect(() => {
+    const qy = query(collection(db, "cashSessions"), where("status", "==", "open"), limit(1));
+    const unsub = onSnapshot(qy, (snap) => {
+      const d = snap.docs[0];
+      setSession(d ? docToCashSession(d.id, d.data()) : null);
+    });
+    return () => unsub();
+  }, []);
+  return session;
+}
+
+// ====================== VENTAS SIN CONEXIÓN ======================
+// Cola en IndexedDB, con almacenamiento persistente pedido al navegador para que no la borre por espacio.
+// "pending": esperan conexión. "failed": el servidor las rechazó; quedan para reintentar, exportar o descartar.
+const SALES_DB = "pos-ventas";
+const LEGACY_PENDING_SALES_KEY = "pos.pendingSales"; // cola anterior en localStorage
+type SalesStore = "pending" | "failed";
+
+let salesDB: Promise<IDBDatabase> | null = null;
+function openSalesDB() {
+  salesDB ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(SALES_DB, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore("pending", { keyPath: "localId" });
+      req.result.createObjectStore("failed", { keyPath: "localId" });
     };
-    await setDoc(ref, payload);
-    setForm({ name: "", code: "", cost: "", margin: 50, stock: 0, lowThreshold: "" });
-    toast.success("Producto agregado");
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => { salesDB = null; reject(req.error); };
+    navigator.storage?.persist?.().catch(() => {});
+  });
+  return salesDB;
+}
+async function salesStore<T>(store: SalesStore, mode: IDBTransactionMode, run: (s: IDBObjectStore) => IDBRequest<T> | void) {
+  const dbi = await openSalesDB();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = dbi.transaction(store, mode);
+    const req = run(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req ? req.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+async function loadQueuedSales<T extends PendingSale>(store: SalesStore): Promise<T[]> {
+  const all = (await salesStore<T[]>(store, "readonly", (s) => s.getAll())) ?? [];
+  return all.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+async function putQueuedSale(store: SalesStore, p: PendingSale | FailedSale) {
+  await salesStore(store, "readwrite", (s) => { s.put(p); });
+}
+async function deleteQueuedSale(store: SalesStore, localId: string) {
+  await salesStore(store, "readwrite", (s) => { s.delete(localId); });
+}
+// Pasa a IndexedDB lo que haya quedado en la cola vieja de localStorage
+async function migrateLegacyPendingSales() {
+  const raw = window.localStorage.getItem(LEGACY_PENDING_SALES_KEY);
+  if (!raw) return;
+  try {
+    const arr = JSON.parse(raw);
+    if (Array.isArray(arr)) for (const p of arr) await putQueuedSale("pending", p);
+  } catch {
+    return; // si no se puede leer, se deja donde está
+  }
+  window.localStorage.removeItem(LEGACY_PENDING_SALES_KEY);
+}
+function isNetworkError(err: any) {
+  return (typeof navigator !== "undefined" && !navigator.onLine)
+    || err?.code === "unavailable" || err?.code === "deadline-exceeded";
+}
+function pendingToSale(p: PendingSale): Sale {
+  return {
+    id: p.localId,
+    at: p.createdAt,
+    items: p.items,
+    total: p.total,
+    subtotal: p.subtotal,
+    discounts: p.discounts,
+    user: p.user,
+    localDate: p.localDate,
+    paymentMethod: p.paymentMethod,
+    payments: salePayments(p),
+    cashTendered: p.cashTendered,
+    change: p.change,
+    customerId: p.customerId,
+    customerName: p.customerName,
+    sessionId: p.sessionId ?? undefined,
+    pendingSync: true,
   };
+}
 
-  const updateField = async (code: string, field: keyof Product, value: any) => {
-    const ref = doc(db, "products", code);
-    await updateDoc(ref, { [field]: field === "cost" || field === "margin" || field === "stock" || field === "lowThreshold" ? Number(value||0) : value });
+// Aplica una venta encolada. El id del documento es el id local, así que
+// reintentar (o una venta cuyo commit sí llegó) nunca la registra dos veces.
+// La venta ya ocurrió: el stock se descuenta aunque quede negativo y se informa como conflicto.
+async function syncPendingSale(p: PendingSale) {
+  const saleRef = doc(db, "sales", p.localId);
+  return runTransaction(db, async (tx) => {
+    const existing = await tx.get(saleRef);
+    if (existing.exists()) return { alreadySynced: true, conflicts: [] as SyncConflict[] };
+
+    const qtyByCode = new Map<string, number>();
+    p.items.forEach((it) => {
+      if (it.code !== "PAN") qtyByCode.set(it.code, roundKg((qtyByCode.get(it.code) || 0) + stockQtyOf(it)));
+    });
+    const codes = Array.from(qtyByCode.keys());
+    const refs = codes.map((c) => doc(db, "products", c));
+    const snaps = await Promise.all(refs.map((r) => tx.get(r)));
+    const sessionRef = p.sessionId ? doc(db, "cashSessions", p.sessionId) : null;
+    const sessionSnap = sessionRef ? await tx.get(sessionRef) : null;
+    const onAccount = accountOf(salePayments(p));
+    const customerRef = onAccount > 0 && p.customerId ? doc(db, "customers", p.customerId) : null;
+    const customerSnap = customerRef ? await tx.get(customerRef) : null;
+
+    const conflicts: SyncConflict[] = [];
+    codes.forEach((code, i) => {
+      const snap = snaps[i];
+      const qty = qtyByCode.get(code) || 0;
+      if (!snap.exists()) {
+        conflicts.push({ code, name: p.items.find((it) => it.code === code)?.name ?? code, reason: "El producto ya no existe" });
+        return;
+      }
+      const prod = snap.data() as Product;
+      const stockAfter = roundKg((prod.stock || 0) - qty);
+      if (stockAfter < 0) conflicts.push({ code, name: prod.name, reason: `Stock quedó en ${stockAfter}` });
+      tx.update(refs[i], { stock: stockAfter, ...(prod.lots?.length ? { lots: consumeLots(prod.lots, qty) } : {}) });
+      addStockMovement(tx, { code, name: prod.name, type: "sale", delta: -qty, stockAfter, ref: p.localId, reason: "Venta sin conexión" });
+    });
+
+    if (sessionRef && sessionSnap?.exists() && sessionSnap.data()?.status === "open") {
+      tx.update(sessionRef, cashSessionSaleUpdate(salePayments(p), p.total));
+    } else {
+      conflicts.push({ code: "", name: "Caja", reason: "La sesión de caja ya estaba cerrada al sincronizar" });
+    }
+    const catOf = new Map(snaps.map((snap, i) => [codes[i], snap.exists() ? (snap.data() as Product).category : undefined]));
+    addToDailySummary(tx, tallySummary(emptySummary(p.localDate), saleSummaryLines(p.items), salePayments(p), p.total, (c) => catOf.get(c), false));
+
+    // El fiado se carga aunque supere el límite: la venta ya se entregó
+    if (customerRef && customerSnap?.exists()) {
+      const c: any = customerSnap.data();
+      const balanceAfter = Number(c.balance || 0) + onAccount;
+      if (c.creditLimit != null && balanceAfter > Number(c.creditLimit)) {
+        conflicts.push({ code: "", name: c.name, reason: `La cuenta corriente superó el límite (${peso(balanceAfter)})` });
+      }
+      addAccountEntry(tx, customerRef.id, { type: "sale", amount: onAccount, balanceAfter, ref: p.localId, localDate: p.localDate, note: "Venta sin conexión" });
+    } else if (onAccount > 0) {
+      conflicts.push({ code: "", name: p.customerName ?? "Cliente", reason: "El cliente de la cuenta corriente no existe" });
+    }
+
+    tx.set(saleRef, {
+      at: Timestamp.fromDate(new Date(p.createdAt)),
+      syncedAt: serverTimestamp(),
+      offline: true,
+      localDate: p.localDate,
+      user: p.user,
+      ...paymentFields(salePayments(p), p.cashTendered),
+      ...(p.customerId ? { customerId: p.customerId, customerName: p.customerName ?? "" } : {}),
+      ...(p.sessionId ? { sessionId: p.sessionId } : {}),
+      items: p.items.map(i => ({
+        code: i.code, name: i.name, qty: i.qty, price: i.price, costAtSale: i.costAtSale ?? 0,
+        ...(i.weight != null ? { weight: i.weight } : {}),
+        ...(i.discount ? { discount: i.discount } : {}),
+      })),
+      total: p.total,
+      ...(p.discounts?.length ? { subtotal: p.subtotal ?? p.total, discounts: p.discounts } : {}),
+      ...(conflicts.length ? { syncConflicts: conflicts } : {}),
+    });
+    return { alreadySynced: false, conflicts };
+  });
+}
+
+function usePendingSales(enabled: boolean) {
+  const [pending, setPending] = useState<PendingSale[]>([]);
+  const [failed, setFailed] = useState<FailedSale[]>([]);
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  const reload = async () => {
+    setPending(await loadQueuedSales<PendingSale>("pending"));
+    setFailed(await loadQueuedSales<FailedSale>("failed"));
+  };
+  // otra pestaña pudo encolar o sincronizar
+  const changed = async () => {
+    await reload();
+    channelRef.current?.postMessage("changed");
   };
 
-  const exportJSON = async () => {
-    const rows = products;
-    const blob = new Blob([JSON.stringify(rows, null, 2)], { type: "application/json" });
+  useEffect(() => {
+    migrateLegacyPendingSales().then(reload).catch((err) => toast.error(`No se pudo leer la cola de ventas: ${err?.message || err}`));
+    setOnline(navigator.onLine);
+    const onOnline = () => setOnline(true);
+    const onOffline = () => setOnline(false);
+    const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(SALES_DB) : null;
+    if (channel) channel.onmessage = () => { reload(); };
+    channelRef.current = channel;
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      channel?.close();
+    };
+  }, []);
+
+  const enqueue = async (p: PendingSale) => {
+    await putQueuedSale("pending", p);
+    await changed();
+  };
+
+  const sync = async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncing(true);
+    let synced = 0;
+    try {
+      const queue = await loadQueuedSales<PendingSale>("pending");
+      for (const p of queue) {
+        try {
+          const r = await syncPendingSale(p);
+          await deleteQueuedSale("pending", p.localId);
+          if (!r.alreadySynced) synced++;
+          if (r.conflicts.length) {
+            toast.warning(`Venta del ${fmtDateTime(p.createdAt)} sincronizada con conflictos: ${r.conflicts.map((c) => `${c.name}: ${c.reason}`).join("; ")}`, { duration: 15000 });
+          }
+        } catch (err: any) {
+          if (isNetworkError(err)) break;
+          // Se aparta para no repetir el error en cada intento; queda en el POS para revisarla
+          await putQueuedSale("failed", { ...p, error: err?.message || String(err), failedAt: new Date().toISOString() });
+          await deleteQueuedSale("pending", p.localId);
+          toast.error(`No se pudo sincronizar la venta del ${fmtDateTime(p.createdAt)}: ${err?.message || err}. Quedó en "Ventas con error" del POS.`);
+        }
+      }
+    } catch (err: any) {
+      toast.error(`No se pudo leer la cola de ventas: ${err?.message || err}`);
+    } finally {
+      await changed().catch(() => {});
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+    if (synced > 0) toast.success(`${synced} ventas sincronizadas`);
+  };
+
+  // Reintento manual: vuelve a la cola y se sincroniza ya
+  const retryFailed = async (f: FailedSale) => {
+    const { error: _error, failedAt: _failedAt, ...p } = f;
+    await putQueuedSale("pending", p);
+    await deleteQueuedSale("failed", f.localId);
+    await changed();
+    await sync();
+  };
+
+  const discardFailed = async (f: FailedSale) => {
+    await deleteQueuedSale("failed", f.localId);
+    await changed();
+  };
+
+  useEffect(() => {
+    if (!enabled || !online) return;
+    sync();
+    const id = window.setInterval(sync, 60000);
+    return () => window.clearInterval(id);
+  }, [enabled, online]);
+
+  return { pending, failed, online, syncing, enqueue, sync, retryFailed, discardFailed };
+}
+
+// Ventas que el servidor rechazó al sincronizar: se revisan, se exportan o se descartan desde el POS
+function FailedSalesCard({ failed, onRetry, onDiscard }: {
+  failed: FailedSale[];
+  onRetry: (f: FailedSale) => Promise<void>;
+  onDiscard: (f: FailedSale) => Promise<void>;
+}) {
+  const [busy, setBusy] = useState(false);
+  if (failed.length === 0) return null;
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await fn();
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo actualizar la cola de ventas");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const discard = (f: FailedSale) => {
+    if (!confirm(`¿Descartar la venta del ${fmtDateTime(f.createdAt)} por ${peso(f.total)}? No queda registrada en ningún lado.`)) return;
+    run(() => onDiscard(f));
+  };
+
+  const exportJSON = () => {
+    const blob = new Blob([JSON.stringify(failed, null, 2)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
-    a.href = url; a.download = `productos_${new Date().toISOString().slice(0,10)}.json`; a.click();
+    a.href = url; a.download = `ventas_con_error_${todayLocalDateAR()}.json`; a.click();
     URL.revokeObjectURL(url);
   };
 
-  const importRef = useRef<HTMLInputElement>(null);
-  const onImport = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]; if (!file) return;
-    const reader = new FileReader();
-    reader.onload = async () => {
-      try {
-        const arr = JSON.parse(String(reader.result));
-        if (!Array.isArray(arr)) throw new Error("Formato inválido");
-        const writes = arr.map(async (p: any) => {
-          const code = String(p.code).trim(); if (!code) return;
-          const payload: Product = {
-            code,
-            name: String(p.name||"").trim(),
-            cost: Number(p.cost||0),
-            margin: Number(p.margin||0),
-            stock: Number(p.stock||0),
-            lowThreshold: p.lowThreshold != null ? Number(p.lowThreshold) : undefined,
-          };
-          await setDoc(doc(db, "products", code), payload, { merge: true });
-        });
-        await Promise.all(writes);
-        toast.success("Productos importados");
-      } catch {
-        toast.error("No se pudo importar");
+  return (
+    <div className="bg-white rounded-2xl border border-red-200 p-4 shadow-sm mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-red-700">Ventas con error ({failed.length})</h3>
+        <button className="border rounded-lg px-3 py-1 text-sm" onClick={exportJSON}>Exportar</button>
+      </div>
+      <p className="text-sm text-slate-500 mb-2">Se cobraron sin conexión pero no se pudieron registrar. Reintentá cuando se resuelva el error o exportalas antes de descartarlas.</p>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left border-b">
+            <th className="py-2">Fecha</th>
+            <th className="py-2">Detalle</th>
+            <th className="py-2">Error</th>
+            <th className="py-2 text-right">Total</th>
+            <th className="py-2 text-right"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {failed.map((f) => (
+            <tr key={f.localId} className="border-b align-top">
+              <td className="py-2 whitespace-nowrap">{fmtDateTime(f.createdAt)}<div className="text-xs text-slate-500">{f.user}</div></td>
+              <td className="py-2 text-xs">{f.items.map((it) => `${it.name} x${it.weight != null ? `${fmtKg(it.weight)} kg` : it.qty}`).join(", ")}</td>
+              <td className="py-2 text-xs text-red-600">{f.error}</td>
+              <td className="py-2 text-right">{peso(f.total)}</td>
+              <td className="py-2 text-right whitespace-nowrap">
+                <button className="border rounded-lg px-3 py-1 disabled:opacity-60" disabled={busy} onClick={()=>run(() => onRetry(f))}>Reintentar</button>
+                <button className="border rounded-lg px-3 py-1 ml-2 disabled:opacity-60" disabled={busy} onClick={()=>discard(f)}>Descartar</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ====================== Auth/Login ======================
+function Login({ onLogin }: { onLogin: () => void }) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [mode, setMode] = useState<"login" | "signup">("login");
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      if (mode === "login") {
+        await signInWithEmailAndPassword(auth, email, password);
+        toast.success("Sesión iniciada");
+      } else {
+        await createUserWithEmailAndPassword(auth, email, password);
+        toast.success("Usuario creado");
+      }
+      onLogin();
+    } catch (err: any) {
+      toast.error(err?.message || "Error de autenticación");
+    }
+  };
+
+  return (
+    <div className="min-h-screen grid place-items-center bg-slate-50 p-6">
+      <div className="w-full max-w-md bg-white rounded-2xl shadow-xl p-6 border">
+        <h1 className="text-2xl font-semibold mb-1">{mode === "login" ? "Iniciar sesión" : "Crear usuario"}</h1>
+        <p className="text-slate-500 mb-4">{mode === "login" ? "Ingresá tus credenciales" : "Habilitá Email/Password en Firebase Auth"}</p>
+        <form onSubmit={submit} className="space-y-3">
+          <div>
+            <label className="text-sm">Email</label>
+            <input className="w-full border rounded-lg p-2 mt-1" placeholder="usuario@dominio.com" value={email} onChange={e=>setEmail(e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm">Contraseña</label>
+            <input type="password" className="w-full border rounded-lg p-2 mt-1" placeholder="••••••••" value={password} onChange={e=>setPassword(e.target.value)} />
+          </div>
+          <div className="flex gap-2 pt-2">
+            <button className="flex-1 bg-black text-white rounded-lg py-2">{
+              mode === "login" ? "Entrar" : "Crear y entrar"
+            }</button>
+            <button type="button" className="flex-1 border rounded-lg py-2" onClick={()=>setMode(mode==="login"?"signup":"login")}>
+              {mode === "login" ? "Crear usuario" : "Ya tengo usuario"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// ====================== MOVIMIENTOS DE STOCK (kardex) ======================
+function KardexModal({ product, onClose }: { product: Product | null; onClose: () => void }) {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+
+  useEffect(() => {
+    if (!product) { setMovements([]); return; }
+    // Requiere índice compuesto stockMovements (code ASC, at DESC)
+    const qy = query(collection(db, "stockMovements"), where("code", "==", product.code), orderBy("at", "desc"), limit(200));
+    const unsub = onSnapshot(qy, (snap) => {
+      const arr: StockMovement[] = [];
+      snap.forEach((d) => arr.push(docToStockMovement(d.id, d.data())));
+      setMovements(arr);
+    }, (err) => toast.error(err.message));
+    return () => unsub();
+  }, [product?.code]);
+
+  useEffect(() => {
+    if (!product) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" || e.key === "Esc") { e.preventDefault(); onClose(); }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [product]);
+
+  if (!product) return null;
+  const lastRecorded = movements[0]?.stockAfter;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-2xl p-4 w-[95%] max-w-3xl max-h-[85vh] overflow-y-auto shadow-xl" onClick={(e)=>e.stopPropagation()}>
+        <h3 className="text-lg font-semibold mb-1">Movimientos de {product.name}</h3>
+        <p className="text-sm text-slate-500 mb-3">
+          Stock actual: <strong>{product.stock}</strong>
+          {lastRecorded != null && lastRecorded !== product.stock && (
+            <span className="text-red-600"> · el último movimiento registrado dejó {lastRecorded}</span>
+          )}
+        </p>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2">Fecha</th>
+              <th className="py-2">Tipo</th>
+              <th className="py-2">Detalle</th>
+              <th className="py-2">Usuario</th>
+              <th className="py-2 text-right">Cantidad</th>
+              <th className="py-2 text-right">Stock</th>
+            </tr>
+          </thead>
+          <tbody>
+            {movements.map((m) => (
+              <tr key={m.id} className="border-b">
+                <td className="py-2 whitespace-nowrap">{fmtDateTime(m.at)}</td>
+                <td className="py-2">{movementLabel(m.type)}</td>
+                <td className="py-2 text-xs text-slate-500">{m.reason || ""}{m.ref ? ` · ${m.ref}` : ""}</td>
+                <td className="py-2">{m.user}</td>
+                <td className={`py-2 text-right ${m.delta < 0 ? "text-red-600" : "text-emerald-700"}`}>{m.delta > 0 ? `+${m.delta}` : m.delta}</td>
+                <td className="py-2 text-right">{m.stockAfter}</td>
+              </tr>
+            ))}
+            {movements.length === 0 && (
+              <tr><td colSpan={6} className="text-center text-slate-500 py-6">Sin movimientos registrados</td></tr>
+            )}
+          </tbody>
+        </table>
+        <div className="flex justify-end mt-3">
+          <button className="px-3 py-1 rounded border" onClick={onClose}>Cerrar (Esc)</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Evolución del precio final: un escalón por cambio, desde el precio anterior al primero
+function PriceChart({ changes }: { changes: PriceChange[] }) {
+  const W = 640, H = 180, PAD = 36;
+  const asc = [...changes].sort((a, b) => a.at.localeCompare(b.at));
+  if (asc.length === 0) return null;
+  const points = [
+    { t: new Date(asc[0].at).getTime(), price: asc[0].oldPrice },
+    ...asc.map((c) => ({ t: new Date(c.at).getTime(), price: c.newPrice })),
+    { t: Date.now(), price: asc[asc.length - 1].newPrice },
+  ];
+  const t0 = points[0].t, t1 = Math.max(points[points.length - 1].t, t0 + 1);
+  const prices = points.map((p) => p.price);
+  const lo = Math.min(...prices), hi = Math.max(...prices, lo + 1);
+  const x = (t: number) => PAD + ((t - t0) / (t1 - t0)) * (W - PAD * 2);
+  const y = (v: number) => H - PAD + 12 - ((v - lo) / (hi - lo)) * (H - PAD * 1.5);
+  const path = points.map((p, i) => (i === 0 ? `M${x(p.t)},${y(p.price)}` : `H${x(p.t)} V${y(p.price)}`)).join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto mb-3 border rounded-xl bg-slate-50">
+      <text x={4} y={y(hi) + 4} fontSize="10" fill="#64748b">{peso(hi)}</text>
+      <text x={4} y={y(lo) + 4} fontSize="10" fill="#64748b">{peso(lo)}</text>
+      <path d={path} fill="none" stroke="#0f172a" strokeWidth={2} />
+      {asc.map((c) => (
+        <circle key={c.id} cx={x(new Date(c.at).getTime())} cy={y(c.newPrice)} r={3} fill="#0f172a">
+          <title>{`${fmtDateTime(c.at)}: ${peso(c.oldPrice)} → ${peso(c.newPrice)}`}</title>
+        </circle>
+      ))}
+      <text x={PAD} y={H - 4} fontSize="10" fill="#64748b">{asc[0].localDate}</text>
+      <text x={W - PAD} y={H - 4} fontSize="10" fill="#64748b" textAnchor="end">hoy</text>
+    </svg>
+  );
+}
+
+function PriceHistoryModal({ product, onClose }: { product: Product | null; onClose: () => void }) {
+  const [changes, setChanges] = useState<PriceChange[]>([]);
+
+  useEffect(() => {
+    if (!product) { setChanges([]); return; }
+    // Requiere índice compuesto priceChanges (code ASC, at DESC)
+    const qy = query(collection(db, "priceChanges"), where("code", "==", product.code), orderBy("at", "desc"), limit(200));
+    const unsub = onSnapshot(qy, (snap) => {
+      setChanges(snap.docs.map((d) => docToPriceChange(d.id, d.data())));
+    }, (err) => toast.error(err.message));
+    return () => unsub();
+  }, [product?.code]);
+
+  useEffect(() => {
+    if (!product) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" || e.key === "Esc") { e.preventDefault(); onClose(); }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [product]);
+
+  if (!product) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-2xl p-4 w-[95%] max-w-3xl max-h-[85vh] overflow-y-auto shadow-xl" onClick={(e)=>e.stopPropagation()}>
+        <h3 className="text-lg font-semibold mb-1">Precios de {product.name}</h3>
+        <p className="text-sm text-slate-500 mb-3">
+          Precio actual: <strong>{peso(calcPrice(product.cost, product.margin))}</strong> (coste {peso(product.cost)}, margen {product.margin}%)
+        </p>
+        <PriceChart changes={changes} />
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2">Fecha</th>
+              <th className="py-2">Origen</th>
+              <th className="py-2">Usuario</th>
+              <th className="py-2 text-right">Coste</th>
+              <th className="py-2 text-right">Margen</th>
+              <th className="py-2 text-right">Precio</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map((c) => (
+              <tr key={c.id} className="border-b">
+                <td className="py-2 whitespace-nowrap">{fmtDateTime(c.at)}</td>
+                <td className="py-2">{priceChangeSourceLabel(c.source)}</td>
+                <td className="py-2">{c.user}</td>
+                <td className="py-2 text-right whitespace-nowrap">{c.oldCost !== c.newCost ? <>{peso(c.oldCost)} → {peso(c.newCost)}</> : peso(c.newCost)}</td>
+                <td className="py-2 text-right whitespace-nowrap">{c.oldMargin !== c.newMargin ? <>{c.oldMargin}% → {c.newMargin}%</> : `${c.newMargin}%`}</td>
+                <td className="py-2 text-right whitespace-nowrap">{peso(c.oldPrice)} → <strong>{peso(c.newPrice)}</strong> <PriceDelta from={c.oldPrice} to={c.newPrice} /></td>
+              </tr>
+            ))}
+            {changes.length === 0 && (
+              <tr><td colSpan={6} className="text-center text-slate-500 py-6">Sin cambios de precio registrados</td></tr>
+            )}
+          </tbody>
+        </table>
+        <div className="flex justify-end mt-3">
+          <button className="px-3 py-1 rounded border" onClick={onClose}>Cerrar (Esc)</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PriceDelta({ from, to }: { from: number; to: number }) {
+  const d = pctChange(to, from);
+  if (d == null || to === from) return null;
+  return <span className="text-xs text-slate-500">{d >= 0 ? "+" : ""}{d.toFixed(1)}%</span>;
+}
+
+// Celda de stock: se confirma al salir del campo o con Enter para dejar un solo movimiento por ajuste
+function StockCell({ product, disabled, onCommit }: { product: Product; disabled: boolean; onCommit: (value: number) => void }) {
+  const [draft, setDraft] = useState(String(product.stock));
+  useEffect(() => { setDraft(String(product.stock)); }, [product.stock]);
+
+  const commit = () => {
+    const v = parseNumberOrZero(draft);
+    if (v !== product.stock) onCommit(v);
+  };
+
+  return (
+    <input type="number" className="w-24 border rounded-lg p-1 text-right"
+      value={draft} disabled={disabled}
+      onChange={(e)=>setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e)=>{ if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }} />
+  );
+}
+
+// Coste y margen también se confirman al salir del campo: un solo cambio en el historial de precios
+function PriceCell({ value, disabled, className, onCommit }: { value: number; disabled: boolean; className: string; onCommit: (value: number) => void }) {
+  const [draft, setDraft] = useState(String(value));
+  useEffect(() => { setDraft(String(value)); }, [value]);
+
+  const commit = () => {
+    const v = parseNumberOrZero(draft);
+    if (v !== value) onCommit(v);
+  };
+
+  return (
+    <input type="number" className={`${className} border rounded-lg p-1 text-right`}
+      value={draft} disabled={disabled}
+      onChange={(e)=>setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e)=>{ if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }} />
+  );
+}
+
+// ====================== LOTES Y VENCIMIENTOS ======================
+async function addLot(code: string, qty: number, expiry: string) {
+  const ref = doc(db, "products", code);
+  await runTransaction(db, async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) throw new Error("Producto no encontrado");
+    const p = snap.data() as Product;
+    const stockAfter = roundKg((p.stock || 0) + qty);
+    tx.update(ref, { stock: stockAfter, lots: fitLots([...(p.lots ?? []), newLot(qty, expiry)], stockAfter) });
+    addStockMovement(tx, { code, name: p.name, type: "adjustment", delta: qty, stockAfter, reason: `Alta de lote (vence ${expiry})` });
+  });
+}
+// Baja del lote completo: sale del stock como merma
+async function writeOffLot(code: string, lotId: string) {
+  const ref = doc(db, "products", code);
+  await runTransaction(db, async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) throw new Error("Producto no encontrado");
+    const p = snap.data() as Product;
+    const lot = (p.lots ?? []).find((l) => l.id === lotId);
+    if (!lot) throw new Error("El lote ya no existe");
+    const stockAfter = roundKg((p.stock || 0) - lot.qty);
+    const wasteRef = doc(collection(db, "waste"));
+    tx.update(ref, { stock: stockAfter, lots: (p.lots ?? []).filter((l) => l.id !== lotId) });
+    addStockMovement(tx, { code, name: p.name, type: "waste", delta: -lot.qty, stockAfter, ref: wasteRef.id, reason: `Lote vencido ${lot.expiry}` });
+    addWasteRecord(tx, wasteRef, "expired", [{ code, name: p.name, qty: lot.qty, unitCost: Number(p.cost || 0) }], `Lote ${lot.expiry}`);
+  });
+}
+// Lotes que vencen hasta `days` días desde hoy (incluye los ya vencidos), del más urgente al menos
+function expiringLots(products: Product[], days: number) {
+  const today = todayLocalDateAR();
+  const limitDate = shiftLocalDate(today, days);
+  return products
+    .flatMap((p) => (p.lots ?? []).map((lot) => ({ product: p, lot, expired: lot.expiry < today })))
+    .filter((x) => x.lot.expiry <= limitDate)
+    .sort((a, b) => a.lot.expiry.localeCompare(b.lot.expiry));
+}
+
+function LotsModal({ product, canEdit, onClose }: { product: Product | null; canEdit: boolean; onClose: () => void }) {
+  const [qty, setQty] = useState("");
+  const [expiry, setExpiry] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => { setQty(""); setExpiry(""); }, [product?.code]);
+
+  useEffect(() => {
+    if (!product) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" || e.key === "Esc") { e.preventDefault(); onClose(); }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [product]);
+
+  if (!product) return null;
+  const today = todayLocalDateAR();
+  const lots = [...(product.lots ?? [])].sort((a, b) => a.expiry.localeCompare(b.expiry));
+  const untracked = (product.stock || 0) - lotsTotal(lots);
+
+  const add = async () => {
+    const q = parseNumberOrZero(qty);
+    if (q <= 0) { toast.error("Ingresá una cantidad válida"); return; }
+    if (!expiry) { toast.error("Indicá el vencimiento"); return; }
+    setBusy(true);
+    try {
+      await addLot(product.code, q, expiry);
+      setQty(""); setExpiry("");
+      toast.success("Lote agregado");
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo agregar el lote");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const writeOff = async (lot: StockLot) => {
+    if (!confirm(`¿Dar de baja ${lot.qty} de ${product.name} (vence ${lot.expiry})?`)) return;
+    try {
+      await writeOffLot(product.code, lot.id);
+      toast.success("Lote dado de baja");
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo dar de baja el lote");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-2xl p-4 w-[95%] max-w-xl max-h-[85vh] overflow-y-auto shadow-xl" onClick={(e)=>e.stopPropagation()}>
+        <h3 className="text-lg font-semibold mb-1">Lotes de {product.name}</h3>
+        <p className="text-sm text-slate-500 mb-3">
+          Stock {product.stock}{untracked > 0 ? ` · ${untracked} sin vencimiento` : ""}. Las ventas consumen primero el lote que vence antes.
+        </p>
+        <table className="w-full text-sm mb-3">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2">Vence</th>
+              <th className="py-2">Ingresó</th>
+              <th className="py-2 text-right">Cantidad</th>
+              <th className="py-2 text-right"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {lots.map((l) => (
+              <tr key={l.id} className={`border-b ${l.expiry < today ? "text-red-600" : ""}`}>
+                <td className="py-2">{l.expiry}{l.expiry < today ? " (vencido)" : ""}</td>
+                <td className="py-2">{l.addedAt}</td>
+                <td className="py-2 text-right">{fmtKg(l.qty)}</td>
+                <td className="py-2 text-right">
+                  {canEdit && <button className="border rounded-lg px-3 py-1" onClick={()=>writeOff(l)}>Dar de baja</button>}
+                </td>
+              </tr>
+            ))}
+            {lots.length === 0 && (
+              <tr><td colSpan={4} className="text-center text-slate-500 py-6">Sin lotes con vencimiento</td></tr>
+            )}
+          </tbody>
+        </table>
+        {canEdit && (
+          <div className="flex gap-2 items-end mb-3">
+            <div className="flex-1">
+              <label className="text-sm">Cantidad</label>
+              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={qty} onChange={(e)=>setQty(e.target.value)} />
+            </div>
+            <div className="flex-1">
+              <label className="text-sm">Vencimiento</label>
+              <input type="date" className="w-full border rounded-lg p-2 mt-1" value={expiry} onChange={(e)=>setExpiry(e.target.value)} />
+            </div>
+            <button onClick={add} disabled={busy} className="bg-black text-white rounded-lg px-4 py-2 disabled:opacity-60">Agregar lote</button>
+          </div>
+        )}
+        <div className="flex justify-end">
+          <button className="px-3 py-1 rounded border" onClick={onClose}>Cerrar (Esc)</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ====================== STOCK ======================
+function StockTab({ products, categories, can }: { products: Product[]; categories: Category[]; can: Can }) {
+  const [q, setQ] = useState("");
+  const [catFilter, setCatFilter] = useState(""); // "" = todas, "none" = sin categoría
+  const [form, setForm] = useState({ name: "", code: "", cost: "", margin: 50, stock: 0, lowThreshold: "" as any, kind: "resale" as ProductKind, unit: "", plu: "", soldByWeight: false, category: "", expiry: "" });
+  const [kardexProduct, setKardexProduct] = useState<Product | null>(null);
+  const [lotsCode, setLotsCode] = useState<string | null>(null);
+  const [priceHistoryProduct, setPriceHistoryProduct] = useState<Product | null>(null);
+  const [showReprice, setShowReprice] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const price = calcPrice(Number(form.cost||0), Number(form.margin||0));
+
+  const filtered = useMemo(() => {
+    const t = q.trim().toLowerCase();
+    const byCat = catFilter === "" ? products
+      : products.filter((p) => (catFilter === "none" ? !p.category : p.category === catFilter));
+    if (!t) return byCat;
+    return byCat.filter((p) => [p.name, p.code].some((f) => String(f).toLowerCase().includes(t)));
+  }, [products, q, catFilter]);
+
+  const addProduct = async () => {
+    if (!can("stock.create")) { toast.error("No tenés permiso para agregar productos"); return; }
+    if (!form.name || !form.code) { toast.error("Completá nombre y código"); return; }
+    const code = String(form.code).trim();
+    const ref = doc(db, "products", code);
+    const snap = await getDoc(ref);
+    if (snap.exists()) { toast.error("Ya existe un producto con ese código"); return; }
+    const payload: Product = {
+      code,
+      name: form.name.trim(),
+      cost: Number(form.cost||0),
+      margin: Number(form.margin||0),
+      stock: Number(form.stock||0),
+      lowThreshold: form.lowThreshold === "" ? undefined : Number(form.lowThreshold),
+      kind: form.kind,
+      ...(form.kind === "ingredient" && form.unit.trim() ? { unit: form.unit.trim() } : {}),
+      ...(form.plu.trim() ? { plu: form.plu.trim() } : {}),
+      ...(form.soldByWeight ? { soldByWeight: true } : {}),
+      ...(form.category ? { category: form.category } : {}),
+    };
+    // El stock inicial con vencimiento entra como primer lote
+    if (form.expiry && payload.stock > 0) payload.lots = [newLot(payload.stock, form.expiry)];
+    const batch = writeBatch(db);
+    batch.set(ref, payload);
+    if (payload.stock !== 0) {
+      addStockMovement(batch, { code, name: payload.name, type: "adjustment", delta: payload.stock, stockAfter: payload.stock, reason: "Stock inicial" });
+    }
+    await batch.commit();
+    setForm({ name: "", code: "", cost: "", margin: 50, stock: 0, lowThreshold: "", kind: "resale", unit: "", plu: "", soldByWeight: false, category: form.category, expiry: "" });
+    toast.success("Producto agregado");
+  };
+
+  const updateField = async (code: string, field: keyof Product, value: any) => {
+    const needed: Permission = field === "cost" || field === "margin" || field === "soldByWeight" || field === "category" ? "stock.editPrices" : "stock.editStock";
+    if (!can(needed)) { toast.error("No tenés permiso para editar este campo"); return; }
+    const ref = doc(db, "products", code);
+    if (field === "stock") { await adjustStock(code, Number(value||0)); return; }
+    if (field === "category") { await updateDoc(ref, { category: value || deleteField() }); return; }
+    if (field === "cost" || field === "margin") { await updatePrice(code, field, Number(value||0)); return; }
+    await updateDoc(ref, { [field]: field === "lowThreshold" ? Number(value||0) : value });
+  };
+
+  // Coste o margen editado a mano: se confirma al salir del campo y queda en el historial de precios
+  const updatePrice = async (code: string, field: "cost" | "margin", value: number) => {
+    const ref = doc(db, "products", code);
+    try {
+      await runTransaction(db, async (tx) => {
+        const snap = await tx.get(ref);
+        if (!snap.exists()) throw new Error("Producto no encontrado");
+        const p = snap.data() as Product;
+        const next = { cost: Number(p.cost || 0), margin: Number(p.margin || 0), [field]: value };
+        if (next.cost === Number(p.cost || 0) && next.margin === Number(p.margin || 0)) return;
+        tx.update(ref, { [field]: value });
+        addPriceChange(tx, code, p, next, "manual");
+      });
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo actualizar el precio");
+    }
+  };
+
+  // Ajuste manual: fija el stock contado y registra la diferencia
+  const adjustStock = async (code: string, newStock: number) => {
+    const ref = doc(db, "products", code);
+    try {
+      await runTransaction(db, async (tx) => {
+        const snap = await tx.get(ref);
+        if (!snap.exists()) throw new Error("Producto no encontrado");
+        const p = snap.data() as Product;
+        const delta = newStock - (p.stock || 0);
+        if (delta === 0) return;
+        tx.update(ref, { stock: newStock, ...(p.lots?.length ? { lots: fitLots(p.lots, newStock) } : {}) });
+        addStockMovement(tx, { code, name: p.name, type: "adjustment", delta, stockAfter: newStock });
+      });
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo ajustar el stock");
+    }
+  };
+
+  const exportJSON = async () => {
+    const rows = products;
+    const blob = new Blob([JSON.stringify(rows, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url; a.download = `productos_${new Date().toISOString().slice(0,10)}.json`; a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-3 gap-4">
+        {can("stock.create") ? (
+        <div className="bg-white rounded-2xl border p-4 shadow-sm md:col-span-2">
+          <h2 className="text-lg font-semibold">Agregar producto</h2>
+          <p className="text-sm text-slate-500 mb-3">El precio final se calcula con el margen.</p>
+          <div className="grid sm:grid-cols-2 xl:grid-cols-8 gap-3">
+            <div className="xl:col-span-2">
+              <label className="text-sm">Producto</label>
+              <input className="w-full border rounded-lg p-2 mt-1" value={form.name} onChange={(e)=>setForm({...form, name:e.target.value})} placeholder="Nombre" />
+            </div>
+            <div>
+              <label className="text-sm">Código</label>
+              <input className="w-full border rounded-lg p-2 mt-1" value={form.code} onChange={(e)=>setForm({...form, code:e.target.value})} placeholder="EAN/UPC" />
+            </div>
+            <div>
+              <label className="text-sm">Coste</label>
+              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={form.cost} onChange={(e)=>setForm({...form, cost:e.target.value})} placeholder="$" />
+            </div>
+            <div>
+              <label className="text-sm">Margen %</label>
+              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={form.margin} onChange={(e)=>setForm({...form, margin:Number(e.target.value||0)})} />
+            </div>
+            <div>
+              <label className="text-sm">Tipo</label>
+              <select className="w-full border rounded-lg p-2 mt-1" value={form.kind} onChange={(e)=>setForm({...form, kind:e.target.value as ProductKind})}>
+                <option value="resale">Reventa</option>
+                <option value="produced">Elaborado</option>
+                <option value="ingredient">Insumo</option>
+              </select>
+            </div>
+            {form.kind === "ingredient" && (
+              <div>
+                <label className="text-sm">Unidad</label>
+                <input className="w-full border rounded-lg p-2 mt-1" value={form.unit} onChange={(e)=>setForm({...form, unit:e.target.value})} placeholder="kg, l, u" />
+              </div>
+            )}
+            <div>
+              <label className="text-sm">Stock inicial</label>
+              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={form.stock} onChange={(e)=>setForm({...form, stock:Number(e.target.value||0)})} />
+            </div>
+            <label className="flex gap-2 items-center text-sm self-end pb-2">
+              <input type="checkbox" className="w-5 h-5" checked={form.soldByWeight} onChange={(e)=>setForm({...form, soldByWeight:e.target.checked})} />
+              Se vende por kilo
+            </label>
+            <div>
+              <label className="text-sm">Categoría</label>
+              <select className="w-full border rounded-lg p-2 mt-1" value={form.category} onChange={(e)=>setForm({...form, category:e.target.value})}>
+                <option value="">Sin categoría</option>
+                {categories.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm">PLU balanza (opcional)</label>
+              <input className="w-full border rounded-lg p-2 mt-1" value={form.plu} onChange={(e)=>setForm({...form, plu:e.target.value})} />
+            </div>
+            <div>
+              <label className="text-sm">Vencimiento del stock inicial (opcional)</label>
+              <input type="date" className="w-full border rounded-lg p-2 mt-1" value={form.expiry} onChange={(e)=>setForm({...form, expiry:e.target.value})} />
+            </div>
+            <div>
+              <label className="text-sm">Umbral bajo (opcional)</label>
+              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={form.lowThreshold} onChange={(e)=>setForm({...form, lowThreshold:e.target.value})} />
+            </div>
+            <div>
+              <label className="text-sm">Precio final</label>
+              <input className="w-full border rounded-lg p-2 mt-1 bg-slate-100" value={price} readOnly />
+            </div>
+            <div className="flex gap-2 items-end">
+              <button onClick={addProduct} className="bg-black text-white rounded-lg px-4 py-2">Agregar</button>
+              <button onClick={exportJSON} className="border rounded-lg px-4 py-2">Exportar</button>
+              {can("stock.import") && (
+                <>
+                  <button onClick={()=>setShowImport(true)} className="border rounded-lg px-4 py-2">Importar</button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+        ) : (
+        <div className="bg-white rounded-2xl border p-4 shadow-sm md:col-span-2">
+          <h2 className="text-lg font-semibold">Productos</h2>
+          <p className="text-sm text-slate-500 mb-3">Tu rol solo permite consultar el stock.</p>
+          <button onClick={exportJSON} className="border rounded-lg px-4 py-2">Exportar</button>
+        </div>
+        )}
+        <div className="bg-white rounded-2xl border p-4 shadow-sm">
+          <h3 className="text-lg font-semibold">Buscar</h3>
+          <p className="text-sm text-slate-500 mb-3">Filtrá por nombre, código o categoría.</p>
+          <input className="w-full border rounded-lg p-2" placeholder="Buscar..." value={q} onChange={(e)=>setQ(e.target.value)} />
+          <select className="w-full border rounded-lg p-2 mt-2" value={catFilter} onChange={(e)=>setCatFilter(e.target.value)}>
+            <option value="">Todas las categorías</option>
+            <option value="none">Sin categoría</option>
+            {categories.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          {can("stock.editPrices") && (
+            <button className="w-full border rounded-lg px-4 py-2 mt-3" onClick={()=>setShowReprice(true)}>Actualizar precios en lote</button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h2 className="text-lg font-semibold mb-1">Listado de productos</h2>
+        <p className="text-sm text-slate-500 mb-3">
+          {can("stock.editPrices") ? "Podés editar coste, margen y stock. El precio recalcula solo." : "Los campos bloqueados requieren un rol con más permisos."}
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">Producto</th>
+                <th className="py-2">Código</th>
+                <th className="py-2">Categoría</th>
+                <th className="py-2 text-right">Coste</th>
+                <th className="py-2 text-right">Margen %</th>
+                <th className="py-2 text-right">Precio</th>
+                <th className="py-2 text-right">Stock actual</th>
+                <th className="py-2 text-right">Umbral</th>
+                <th className="py-2 text-right">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.map((p) => (
+                <tr key={p.code} className={`${p.stock <= (p.lowThreshold ?? 999999) ? "bg-red-50" : ""} border-b`}>
+                  <td className="py-2">
+                    {p.name}
+                    {p.kind && p.kind !== "resale" && <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-amber-100 text-amber-800">{kindLabel(p.kind)}{p.unit ? ` · ${p.unit}` : ""}</span>}
+                  </td>
+                  <td className="py-2 font-mono">{p.code}</td>
+                  <td className="py-2">
+                    <select className="border rounded-lg p-1 max-w-[10rem]" value={p.category ?? ""} disabled={!can("stock.editPrices")} onChange={(e)=>updateField(p.code, "category", e.target.value)}>
+                      <option value="">—</option>
+                      {categories.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </select>
+                  </td>
+                  <td className="py-2 text-right">
+                    {p.costSource === "recipe" && <div className="text-[10px] text-slate-500">según receta</div>}
+                    <PriceCell className="w-28" value={p.cost} disabled={!can("stock.editPrices")} onCommit={(v)=>updateField(p.code, "cost", v)} />
+                  </td>
+                  <td className="py-2 text-right">
+                    <PriceCell className="w-24" value={p.margin} disabled={!can("stock.editPrices")} onCommit={(v)=>updateField(p.code, "margin", v)} />
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    {peso(calcPrice(p.cost, p.margin))}{p.soldByWeight ? "/kg" : ""}
+                    <label className="block text-[10px] text-slate-500">
+                      <input type="checkbox" className="mr-1 align-middle" checked={!!p.soldByWeight} disabled={!can("stock.editPrices")}
+                        onChange={(e)=>updateField(p.code, "soldByWeight", e.target.checked)} />
+                      por kilo
+                    </label>
+                  </td>
+                  <td className="py-2 text-right">
+                    <StockCell product={p} disabled={!can("stock.editStock")} onCommit={(v)=>updateField(p.code, "stock", v)} />
+                    {p.lots?.length ? (
+                      <div className={`text-[10px] ${p.lots.some((l) => l.expiry < todayLocalDateAR()) ? "text-red-600 font-semibold" : "text-slate-500"}`}>
+                        vence {p.lots.map((l) => l.expiry).sort()[0]}
+                      </div>
+                    ) : null}
+                  </td>
+                  <td className="py-2 text-right">
+                    <input type="number" className="w-20 border rounded-lg p-1 text-right"
+                      value={p.lowThreshold ?? ""} disabled={!can("stock.editStock")} onChange={(e)=>updateField(p.code, "lowThreshold", e.target.value)} />
+                  </td>
+                  <td className="py-2 text-right">
+                    <button className="border rounded-lg px-3 py-1" onClick={()=>setKardexProduct(p)}>Movimientos</button>
+                    <button className="border rounded-lg px-3 py-1 ml-2" onClick={()=>setLotsCode(p.code)}>Lotes</button>
+                    <button className="border rounded-lg px-3 py-1 ml-2" onClick={()=>setPriceHistoryProduct(p)}>Precios</button>
+                  </td>
+                </tr>
+              ))}
+              {filtered.length === 0 && (
+                <tr><td colSpan={9} className="text-center text-slate-500 py-6">Sin resultados</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {can("stock.create") && <CategoriesCard categories={categories} products={products} />}
+
+      <KardexModal product={kardexProduct} onClose={()=>setKardexProduct(null)} />
+      <PriceHistoryModal product={priceHistoryProduct} onClose={()=>setPriceHistoryProduct(null)} />
+      <LotsModal product={products.find((p) => p.code === lotsCode) ?? null} canEdit={can("stock.editStock")} onClose={()=>setLotsCode(null)} />
+      <ImportModal open={showImport} products={products} categories={categories} onClose={()=>setShowImport(false)} />
+      <BulkPriceModal open={showReprice} products={products} categories={categories} search={q} onClose={()=>setShowReprice(false)} />
+    </div>
+  );
+}
+
+// Selector de color: mientras se arrastra solo cambia el borrador; se guarda al soltar (evento "change" nativo) o al salir
+function ColorCell({ value, onCommit }: { value: string; onCommit: (value: string) => void }) {
+  const [draft, setDraft] = useState(value);
+  const ref = useRef<HTMLInputElement>(null);
+  const draftRef = useRef(value);
+  const savedRef = useRef(value); // "change" y blur pueden llegar juntos: una sola escritura
+  useEffect(() => { setDraft(value); draftRef.current = value; savedRef.current = value; }, [value]);
+
+  const commit = () => {
+    if (draftRef.current === savedRef.current) return;
+    savedRef.current = draftRef.current;
+    onCommit(draftRef.current);
+  };
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    el.addEventListener("change", commit);
+    return () => el.removeEventListener("change", commit);
+  });
+
+  return (
+    <input ref={ref} type="color" className="w-6 h-6" value={draft}
+      onChange={(e)=>{ setDraft(e.target.value); draftRef.current = e.target.value; }}
+      onBlur={commit} />
+  );
+}
+
+function CategoriesCard({ categories, products }: { categories: Category[]; products: Product[] }) {
+  const [name, setName] = useState("");
+  const usage = useMemo(() => {
+    const m = new Map<string, number>();
+    products.forEach((p) => { if (p.category) m.set(p.category, (m.get(p.category) || 0) + 1); });
+    return m;
+  }, [products]);
+
+  const add = async () => {
+    const n = name.trim();
+    if (!n) return;
+    if (findCategory(categories, n)) { toast.error("Esa categoría ya existe"); return; }
+    try {
+      await setDoc(doc(collection(db, "categories")), { name: n });
+      setName("");
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo crear la categoría");
+    }
+  };
+
+  const rename = async (c: Category, value: string) => {
+    const n = value.trim();
+    if (!n || n === c.name) return;
+    try {
+      await updateDoc(doc(db, "categories", c.id), { name: n });
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo renombrar la categoría");
+    }
+  };
+
+  const recolor = (c: Category, color: string) => {
+    updateDoc(doc(db, "categories", c.id), { color })
+      .catch((err: any) => toast.error(err?.message || "No se pudo cambiar el color"));
+  };
+
+  const remove = async (c: Category) => {
+    if (usage.get(c.id)) { toast.error(`Hay ${usage.get(c.id)} productos en ${c.name}: cambialos de categoría primero`); return; }
+    if (!confirm(`¿Borrar la categoría "${c.name}"?`)) return;
+    try {
+      await deleteDoc(doc(db, "categories", c.id));
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo borrar la categoría");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border p-4 shadow-sm">
+      <h2 className="text-lg font-semibold mb-1">Categorías</h2>
+      <p className="text-sm text-slate-500 mb-3">Agrupan productos en el stock, el balance, las promociones y el POS.</p>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {categories.map((c) => (
+          <div key={c.id} className="flex items-center gap-1 border rounded-lg px-2 py-1">
+            <ColorCell value={c.color ?? "#e2e8f0"} onCommit={(v)=>recolor(c, v)} />
+            <input className="w-32 p-1" defaultValue={c.name} onBlur={(e)=>rename(c, e.target.value)}
+              onKeyDown={(e)=>{ if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }} />
+            <span className="text-xs text-slate-500">{usage.get(c.id) || 0}</span>
+            <button className="text-slate-500 px-1" onClick={()=>remove(c)}>×</button>
+          </div>
+        ))}
+        {categories.length === 0 && <span className="text-sm text-slate-500">Todavía no hay categorías</span>}
+      </div>
+      <div className="flex gap-2 max-w-md">
+        <input className="flex-1 border rounded-lg p-2" placeholder="Nueva categoría (ej. Facturas)" value={name}
+          onChange={(e)=>setName(e.target.value)} onKeyDown={(e)=>{ if (e.key === "Enter") add(); }} />
+        <button className="border rounded-lg px-4 py-2" onClick={add}>Agregar</button>
+      </div>
+    </div>
+  );
+}
+
+// Firestore admite hasta 500 escrituras por lote
+const BATCH_LIMIT = 450;
+
+type RepriceRow = { p: Product; cost: number; margin: number; oldPrice: number; newPrice: number };
+
+function BulkPriceModal({
+  open, products, categories, search, onClose,
+}: { open: boolean; products: Product[]; categories: Category[]; search: string; onClose: () => void }) {
+  const [scope, setScope] = useState<"all" | "search" | "category">("all");
+  const [category, setCategory] = useState("");
+  const [mode, setMode] = useState<"cost" | "margin">("cost");
+  const [value, setValue] = useState("");
+  const [rounding, setRounding] = useState<PriceRounding>(DEFAULT_PRICE_ROUNDING);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+
+  useEffect(() => {
+    if (!open) return;
+    setExcluded(new Set());
+    getDoc(doc(db, "settings", "config")).then((d) => {
+      const r = d.data()?.priceRounding;
+      if (r) setRounding({ ...DEFAULT_PRICE_ROUNDING, ...r });
+    });
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" || e.key === "Esc") { e.preventDefault(); onClose(); }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [open]);
+
+  const rows = useMemo<RepriceRow[]>(() => {
+    const t = search.trim().toLowerCase();
+    const v = parseNumberOrZero(value);
+    return products
+      .filter((p) => p.kind !== "ingredient")
+      .filter((p) => scope === "all"
+        || (scope === "search" && [p.name, p.code].some((f) => String(f).toLowerCase().includes(t)))
+        || (scope === "category" && p.category === category))
+      .map((p) => {
+        // el coste de los elaborados con receta se deriva de los insumos: solo cambia el margen
+        const cost = mode === "cost" && p.costSource !== "recipe" ? Math.round(Number(p.cost || 0) * (1 + v / 100) * 100) / 100 : Number(p.cost || 0);
+        const rawMargin = mode === "margin" && value.trim() !== "" ? v : Number(p.margin || 0);
+        const newPrice = cost > 0 ? roundPrice(calcPrice(cost, rawMargin), rounding) : calcPrice(cost, rawMargin);
+        const margin = newPrice === calcPrice(cost, rawMargin) ? rawMargin : marginForPrice(cost, newPrice, rawMargin);
+        return { p, cost, margin, oldPrice: calcPrice(p.cost, p.margin), newPrice };
+      });
+  }, [products, search, scope, category, mode, value, rounding]);
+
+  const selected = rows.filter((r) => !excluded.has(r.p.code) && (r.cost !== r.p.cost || r.margin !== r.p.margin));
+
+  const apply = async () => {
+    if (selected.length === 0) { toast.info("No hay precios que cambiar"); return; }
+    if (!confirm(`¿Actualizar el precio de ${selected.length} productos?`)) return;
+    setBusy(true);
+    try {
+      // Producto + cambio de precio: dos escrituras por fila. El valor anterior se lee en la transacción
+      const perBatch = Math.floor(BATCH_LIMIT / 2);
+      for (let i = 0; i < selected.length; i += perBatch) {
+        const chunk = selected.slice(i, i + perBatch);
+        await runTransaction(db, async (tx) => {
+          const refs = chunk.map((r) => doc(db, "products", r.p.code));
+          const snaps = await Promise.all(refs.map((ref) => tx.get(ref)));
+          chunk.forEach((r, j) => {
+            if (!snaps[j].exists()) return;
+            const p = snaps[j].data() as Product;
+            if (r.cost === Number(p.cost || 0) && r.margin === Number(p.margin || 0)) return;
+            tx.update(refs[j], { cost: r.cost, margin: r.margin });
+            addPriceChange(tx, r.p.code, p, { cost: r.cost, margin: r.margin }, "bulk");
+          });
+        });
+      }
+      await setDoc(doc(db, "settings", "config"), { priceRounding: rounding }, { merge: true });
+      toast.success(`${selected.length} precios actualizados`);
+      onClose();
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudieron actualizar los precios");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-2xl p-4 w-[95%] max-w-4xl max-h-[90vh] overflow-y-auto shadow-xl" onClick={(e)=>e.stopPropagation()}>
+        <h3 className="text-lg font-semibold mb-1">Actualizar precios</h3>
+        <p className="text-sm text-slate-500 mb-3">
+          Revisá la vista previa antes de aplicar. El precio redondeado se guarda ajustando el margen.
+        </p>
+        <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-3 mb-3 items-end">
+          <div>
+            <label className="text-sm">Productos</label>
+            <select className="w-full border rounded-lg p-2 mt-1" value={scope} onChange={(e)=>setScope(e.target.value as typeof scope)}>
+              <option value="all">Todos</option>
+              <option value="search" disabled={!search.trim()}>Búsqueda actual{search.trim() ? ` ("${search.trim()}")` : ""}</option>
+              <option value="category" disabled={categories.length === 0}>Categoría</option>
+            </select>
+          </div>
+          {scope === "category" && (
+            <div>
+              <label className="text-sm">Categoría</label>
+              <select className="w-full border rounded-lg p-2 mt-1" value={category} onChange={(e)=>setCategory(e.target.value)}>
+                <option value="">Elegí…</option>
+                {categories.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="text-sm">Cambio</label>
+            <div className="flex gap-2 mt-1">
+              <select className="border rounded-lg p-2" value={mode} onChange={(e)=>setMode(e.target.value as typeof mode)}>
+                <option value="cost">Aumento de coste %</option>
+                <option value="margin">Nuevo margen %</option>
+              </select>
+              <input type="number" className="w-24 border rounded-lg p-2" value={value} onChange={(e)=>setValue(e.target.value)} placeholder="%" />
+            </div>
+          </div>
+          <div>
+            <label className="text-sm">Redondeo del precio final</label>
+            <div className="flex gap-2 mt-1">
+              <select className="border rounded-lg p-2" value={rounding.mode} onChange={(e)=>setRounding({ ...rounding, mode: e.target.value as PriceRounding["mode"] })}>
+                <option value="none">Sin redondeo</option>
+                <option value="nearest">Al más cercano</option>
+                <option value="up">Hacia arriba</option>
+                <option value="end9">Terminado en 9</option>
+              </select>
+              <select className="border rounded-lg p-2" value={rounding.step} disabled={rounding.mode === "none"} onChange={(e)=>setRounding({ ...rounding, step: Number(e.target.value) })}>
+                {[10, 50, 100, 500].map((s) => <option key={s} value={s}>${s}</option>)}
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto mb-3">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2"></th>
+                <th className="py-2">Producto</th>
+                <th className="py-2 text-right">Coste</th>
+                <th className="py-2 text-right">Margen %</th>
+                <th className="py-2 text-right">Precio actual</th>
+                <th className="py-2 text-right">Precio nuevo</th>
+                <th className="py-2 text-right">Var. %</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => {
+                const changed = r.newPrice !== r.oldPrice;
+                const pct = r.oldPrice > 0 ? ((r.newPrice - r.oldPrice) / r.oldPrice) * 100 : 0;
+                return (
+                  <tr key={r.p.code} className={`border-b ${excluded.has(r.p.code) ? "text-slate-400" : ""}`}>
+                    <td className="py-1">
+                      <input type="checkbox" checked={!excluded.has(r.p.code)} onChange={(e)=>setExcluded((prev) => {
+                        const next = new Set(prev);
+                        if (e.target.checked) next.delete(r.p.code); else next.add(r.p.code);
+                        return next;
+                      })} />
+                    </td>
+                    <td className="py-1">
+                      {r.p.name}
+                      {r.p.costSource === "recipe" && mode === "cost" && <span className="ml-1 text-[10px] text-slate-500">(coste según receta)</span>}
+                    </td>
+                    <td className="py-1 text-right whitespace-nowrap">{r.cost !== r.p.cost ? <>{peso(r.p.cost)} → <strong>{peso(r.cost)}</strong></> : peso(r.cost)}</td>
+                    <td className="py-1 text-right whitespace-nowrap">{r.margin !== r.p.margin ? <>{r.p.margin} → <strong>{r.margin}</strong></> : r.margin}</td>
+                    <td className="py-1 text-right">{peso(r.oldPrice)}</td>
+                    <td className={`py-1 text-right ${changed ? "font-semibold" : ""}`}>{peso(r.newPrice)}</td>
+                    <td className={`py-1 text-right ${pct > 0 ? "text-red-600" : pct < 0 ? "text-emerald-700" : ""}`}>{changed ? `${pct.toFixed(1)}%` : "-"}</td>
+                  </tr>
+                );
+              })}
+              {rows.length === 0 && (
+                <tr><td colSpan={7} className="text-center text-slate-500 py-6">No hay productos en la selección</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-slate-500">{selected.length} de {rows.length} productos cambian</span>
+          <div className="flex gap-2">
+            <button className="px-3 py-1 rounded border" onClick={onClose}>Cancelar (Esc)</button>
+            <button className="px-3 py-1 rounded bg-black text-white disabled:opacity-60" disabled={busy || selected.length === 0} onClick={apply}>
+              {busy ? "Aplicando..." : `Aplicar a ${selected.length}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ====================== IMPORTACIÓN DE PRODUCTOS ======================
+type ImportField = "code" | "name" | "cost" | "margin" | "price" | "stock" | "lowThreshold" | "category";
+type ImportStatus = "new" | "changed" | "unchanged" | "skipped" | "error";
+type ImportRow = {
+  line: number; // fila del archivo (1 = encabezado)
+  code: string;
+  status: ImportStatus;
+  messages: string[];
+  before?: Product;
+  changes: Partial<Product>;
+  categoryName?: string; // categoría a crear si no existe
+};
+type ImportReport = { created: number; updated: number; unchanged: number; skipped: number; failed: { codes: string[]; error: string }[] };
+
+// Los encabezados se reconocen sin importar mayúsculas, acentos ni espacios
+const IMPORT_FIELDS: { key: ImportField; label: string; aliases: string[] }[] = [
+  { key: "code", label: "Código", aliases: ["code", "codigo", "cod", "sku", "ean", "barcode", "codigodebarras"] },
+  { key: "name", label: "Nombre", aliases: ["name", "nombre", "producto", "descripcion", "articulo"] },
+  { key: "cost", label: "Coste", aliases: ["cost", "coste", "costo", "preciocosto", "preciodecosto", "preciolista", "neto"] },
+  { key: "margin", label: "Margen %", aliases: ["margin", "margen", "margen%"] },
+  { key: "price", label: "Precio final", aliases: ["price", "precio", "precioventa", "preciofinal", "pvp"] },
+  { key: "stock", label: "Stock", aliases: ["stock", "existencia", "cantidad"] },
+  { key: "lowThreshold", label: "Umbral bajo", aliases: ["lowthreshold", "umbral", "umbralbajo", "minimo", "stockminimo"] },
+  { key: "category", label: "Categoría", aliases: ["category", "categoria", "rubro", "familia"] },
+];
+
+function headerKey(h: string) {
+  return foldText(h).replace(/[\s_\-.]/g, "");
+}
+// CSV con comillas; el separador (, ; o tab) se deduce de la primera línea
+function parseCSV(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const first = src.split(/\r?\n/, 1)[0] ?? "";
+  const sep = [";", "\t", ","].reduce((best, c) => (first.split(c).length > first.split(best).length ? c : best), ",");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === sep) { row.push(cell); cell = ""; }
+    else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell); rows.push(row); row = []; cell = "";
+    } else cell += ch;
+  }
+  if (cell !== "" || row.length) { row.push(cell); rows.push(row); }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+// Acepta "1.234,56", "1234.56", "$ 1.500"; null si no es un número
+function parseLocaleNumber(v: string): number | null {
+  let t = String(v ?? "").replace(/[$\s%]/g, "");
+  if (t === "") return null;
+  const lastComma = t.lastIndexOf(","), lastDot = t.lastIndexOf(".");
+  if (lastComma >= 0 && lastDot >= 0) {
+    t = lastComma > lastDot ? t.replace(/\./g, "").replace(",", ".") : t.replace(/,/g, "");
+  } else if (lastComma >= 0) {
+    t = t.replace(",", ".");
+  } else if (/^-?\d{1,3}(\.\d{3})+$/.test(t)) {
+    t = t.replace(/\./g, "");
+  }
+  const n = Number(t);
+  return Number.isFinite(n) ? n : null;
+}
+
+function ImportModal({
+  open, products, categories, onClose,
+}: { open: boolean; products: Product[]; categories: Category[]; onClose: () => void }) {
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [records, setRecords] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, number>>>({});
+  const [pricesOnly, setPricesOnly] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setFileName(""); setHeaders([]); setRecords([]); setMapping({}); setReport(null);
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" || e.key === "Esc") { e.preventDefault(); onClose(); }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [open]);
+
+  const onFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]; if (!file) return;
+    e.target.value = "";
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const text = String(reader.result);
+        let table: string[][];
+        // El JSON que genera "Exportar" se convierte a la misma tabla que un CSV
+        if (/\.json$/i.test(file.name) || text.trim().startsWith("[")) {
+          const arr = JSON.parse(text);
+          if (!Array.isArray(arr)) throw new Error("El JSON tiene que ser una lista de productos");
+          const keys = Array.from(new Set(arr.flatMap((o: any) => Object.keys(o ?? {}))));
+          table = [keys, ...arr.map((o: any) => keys.map((k) => (o?.[k] == null ? "" : String(o[k]))))];
+        } else {
+          table = parseCSV(text);
+        }
+        if (table.length < 2) throw new Error("El archivo no tiene filas para importar");
+        const [head, ...body] = table;
+        const auto: Partial<Record<ImportField, number>> = {};
+        head.forEach((h, idx) => {
+          const f = IMPORT_FIELDS.find((x) => x.aliases.includes(headerKey(h)));
+          if (f && auto[f.key] == null) auto[f.key] = idx;
+        });
+        setFileName(file.name);
+        setHeaders(head.map((h) => h.trim()));
+        setRecords(body);
+        setMapping(auto);
+        setReport(null);
+      } catch (err: any) {
+        toast.error(err?.message || "No se pudo leer el archivo");
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const byCode = useMemo(() => new Map(products.map((p) => [p.code, p])), [products]);
+
+  // Simulación: nada se escribe hasta "Importar"
+  const rows = useMemo<ImportRow[]>(() => {
+    if (mapping.code == null) return [];
+    const seen = new Set<string>();
+    return records.map((r, idx) => {
+      const cell = (f: ImportField) => (mapping[f] != null ? String(r[mapping[f]!] ?? "").trim() : "");
+      const has = (f: ImportField) => mapping[f] != null && cell(f) !== "";
+      const code = cell("code");
+      const messages: string[] = [];
+      const before = byCode.get(code);
+      const changes: Partial<Product> = {};
+      const row: ImportRow = { line: idx + 2, code, status: "error", messages, before, changes };
+
+      if (!code) { messages.push("Falta el código"); return row; }
+      if (seen.has(code)) { messages.push("Código repetido en el archivo"); return row; }
+      seen.add(code);
+      if (!before && pricesOnly) { row.status = "skipped"; messages.push("No existe (en modo solo precios no se crean productos)"); return row; }
+
+      const num = (f: ImportField, label: string, allowNegative = false) => {
+        if (!has(f)) return undefined;
+        const n = parseLocaleNumber(cell(f));
+        if (n == null) { messages.push(`${label} inválido: "${cell(f)}"`); return undefined; }
+        if (n < 0 && !allowNegative) { messages.push(`${label} no puede ser negativo`); return undefined; }
+        return n;
+      };
+      const cost = num("cost", "Coste");
+      const marginIn = num("margin", "Margen", true);
+      const price = num("price", "Precio");
+      const stock = pricesOnly ? undefined : num("stock", "Stock", true);
+      const low = pricesOnly ? undefined : num("lowThreshold", "Umbral");
+      const name = cell("name");
+      if (!before && !name) messages.push("Falta el nombre del producto nuevo");
+      if (messages.length) return row;
+
+      if (!pricesOnly && name && name !== before?.name) changes.name = name;
+      if (cost != null) {
+        if (before?.costSource === "recipe") messages.push("Coste según receta: se ignora el del archivo");
+        else if (cost !== before?.cost) changes.cost = cost;
+      }
+      const effCost = changes.cost ?? before?.cost ?? 0;
+      if (marginIn == null && price != null && effCost <= 0) { messages.push("Precio sin coste: no se puede calcular el margen"); return row; }
+      // Con precio final se despeja el margen; si también vino margen, manda el margen
+      let margin = marginIn;
+      if (margin == null && price != null) margin = marginForPrice(effCost, price, before?.margin ?? 0);
+      if (margin != null && margin !== before?.margin) changes.margin = margin;
+      if (stock != null && stock !== before?.stock) changes.stock = stock;
+      if (low != null && low !== before?.lowThreshold) changes.lowThreshold = low;
+      if (!pricesOnly && has("category")) {
+        const cat = findCategory(categories, cell("category"));
+        if (!cat) row.categoryName = cell("category");
+        else if (cat.id !== before?.category) changes.category = cat.id;
+      }
+
+      if (!before) {
+        row.status = "new";
+        Object.assign(changes, { name, cost: changes.cost ?? 0, margin: changes.margin ?? 0, stock: changes.stock ?? 0 });
+      } else {
+        row.status = Object.keys(changes).length || row.categoryName ? "changed" : "unchanged";
+      }
+      return row;
+    });
+  }, [records, mapping, pricesOnly, byCode, categories]);
+
+  const counts = rows.reduce((acc, r) => { acc[r.status] += 1; return acc; }, { new: 0, changed: 0, unchanged: 0, skipped: 0, error: 0 } as Record<ImportStatus, number>);
+  const toWrite = rows.filter((r) => r.status === "new" || r.status === "changed");
+  const visible = showUnchanged ? rows : rows.filter((r) => r.status !== "unchanged");
+
+  const apply = async () => {
+    if (toWrite.length === 0) { toast.info("No hay cambios para importar"); return; }
+    if (!confirm(`¿Importar ${counts.new} productos nuevos y actualizar ${counts.changed}?`)) return;
+    setBusy(true);
+    const result: ImportReport = { created: 0, updated: 0, unchanged: counts.unchanged, skipped: counts.skipped + counts.error, failed: [] };
+    try {
+      // Las categorías que no existen se crean antes de importar los productos
+      const known = [...categories];
+      for (const name of new Set(toWrite.map((r) => r.categoryName).filter(Boolean) as string[])) {
+        if (findCategory(known, name)) continue;
+        const ref = doc(collection(db, "categories"));
+        await setDoc(ref, { name });
+        known.push({ id: ref.id, name });
+      }
+      const changesOf = (r: ImportRow) => {
+        const changes = { ...r.changes };
+        if (r.categoryName) changes.category = findCategory(known, r.categoryName)?.id;
+        return changes;
+      };
+      const counted = (r: ImportRow) => { if (r.status === "new") result.created += 1; else result.updated += 1; };
+
+      // Las filas que fijan stock van de a una en transacción: el movimiento y los lotes salen
+      // del stock actual, no del que había al leer el archivo (pudo haber ventas en el medio)
+      for (const r of toWrite.filter((x) => x.changes.stock != null)) {
+        const changes = changesOf(r);
+        const stock = changes.stock!;
+        const ref = doc(db, "products", r.code);
+        try {
+          await runTransaction(db, async (tx) => {
+            const snap = await tx.get(ref);
+            const current = snap.exists() ? (snap.data() as Product) : undefined;
+            const prev = Number(current?.stock ?? 0);
+            tx.set(ref, { ...changes, ...(current?.lots?.length ? { lots: fitLots(current.lots, stock) } : {}) }, { merge: true });
+            if (stock !== prev) {
+              addStockMovement(tx, { code: r.code, name: changes.name ?? current?.name ?? r.code, type: "import", delta: roundKg(stock - prev), stockAfter: stock, reason: fileName });
+            }
+            if (current && (changes.cost != null || changes.margin != null)) {
+              addPriceChange(tx, r.code, current, { cost: changes.cost ?? current.cost, margin: changes.margin ?? current.margin }, "import", fileName);
+            }
+          });
+          counted(r);
+        } catch (err: any) {
+          result.failed.push({ codes: [r.code], error: err?.message || "Error desconocido" });
+        }
+      }
+
+      // El resto (nombre, precios, categoría, umbral) va por lotes: producto + cambio de precio.
+      // Cada lote se vuelve a leer justo antes: el "antes" del historial de precios es el actual.
+      const rest = toWrite.filter((x) => x.changes.stock == null);
+      const perBatch = Math.floor(BATCH_LIMIT / 2);
+      for (let i = 0; i < rest.length; i += perBatch) {
+        const chunk = rest.slice(i, i + perBatch);
+        try {
+          const snaps = await Promise.all(chunk.map((r) => getDoc(doc(db, "products", r.code))));
+          const batch = writeBatch(db);
+          chunk.forEach((r, k) => {
+            const changes = changesOf(r);
+            const current = snaps[k].exists() ? (snaps[k].data() as Product) : undefined;
+            batch.set(doc(db, "products", r.code), changes, { merge: true });
+            if (current && (changes.cost != null || changes.margin != null)) {
+              addPriceChange(batch, r.code, current, { cost: changes.cost ?? current.cost, margin: changes.margin ?? current.margin }, "import", fileName);
+            }
+          });
+          await batch.commit();
+          chunk.forEach(counted);
+        } catch (err: any) {
+          result.failed.push({ codes: chunk.map((r) => r.code), error: err?.message || "Error desconocido" });
+        }
+      }
+      setReport(result);
+      if (result.failed.length) toast.warning("La importación terminó con errores");
+      else toast.success("Productos importados");
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo importar");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!open) return null;
+
+  const statusLabel: Record<ImportStatus, string> = { new: "Nuevo", changed: "Cambia", unchanged: "Sin cambios", skipped: "Omitido", error: "Error" };
+  const statusClass: Record<ImportStatus, string> = {
+    new: "bg-emerald-100 text-emerald-700",
+    changed: "bg-blue-100 text-blue-700",
+    unchanged: "bg-slate-100 text-slate-600",
+    skipped: "bg-amber-100 text-amber-700",
+    error: "bg-red-100 text-red-700",
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-2xl p-4 w-[95%] max-w-5xl max-h-[90vh] overflow-y-auto shadow-xl" onClick={(e)=>e.stopPropagation()}>
+        <h3 className="text-lg font-semibold mb-1">Importar productos</h3>
+        <p className="text-sm text-slate-500 mb-3">
+          CSV (separado por coma, punto y coma o tab) o el JSON de "Exportar". Revisá la simulación antes de importar: nada se guarda hasta confirmar.
+        </p>
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <input type="file" accept=".csv,.txt,.json,text/csv,application/json" ref={fileRef} className="hidden" onChange={onFile} />
+          <button className="border rounded-lg px-4 py-2" onClick={()=>fileRef.current?.click()}>Elegir archivo</button>
+          {fileName && <span className="text-sm">{fileName} · {records.length} filas</span>}
+          <label className="text-sm flex items-center gap-2 ml-auto">
+            <input type="checkbox" checked={pricesOnly} onChange={(e)=>setPricesOnly(e.target.checked)} />
+            Solo actualizar precios (no toca stock ni crea productos)
+          </label>
+        </div>
+
+        {headers.length > 0 && (
+          <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-3 mb-3">
+            {IMPORT_FIELDS.map((f) => (
+              <div key={f.key}>
+                <label className="text-sm">{f.label}{f.key === "code" ? " *" : ""}</label>
+                <select
+                  className="w-full border rounded-lg p-2 mt-1"
+                  value={mapping[f.key] ?? ""}
+                  disabled={pricesOnly && ["name", "stock", "lowThreshold", "category"].includes(f.key)}
+                  onChange={(e)=>setMapping((m) => ({ ...m, [f.key]: e.target.value === "" ? undefined : Number(e.target.value) }))}
+                >
+                  <option value="">— no importar —</option>
+                  {headers.map((h, idx) => <option key={idx} value={idx}>{h || `Columna ${idx + 1}`}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+        {headers.length > 0 && mapping.code == null && <p className="text-sm text-red-600 mb-3">Elegí la columna del código.</p>}
+
+        {rows.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-3 text-sm mb-2">
+              {(Object.keys(counts) as ImportStatus[]).map((k) => (
+                <span key={k} className={`px-2 py-0.5 rounded ${statusClass[k]}`}>{statusLabel[k]}: {counts[k]}</span>
+              ))}
+              <label className="flex items-center gap-2 ml-auto">
+                <input type="checkbox" checked={showUnchanged} onChange={(e)=>setShowUnchanged(e.target.checked)} />
+                Mostrar sin cambios
+              </label>
+            </div>
+            <div className="overflow-x-auto mb-3">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="py-2">Fila</th>
+                    <th className="py-2">Código</th>
+                    <th className="py-2">Producto</th>
+                    <th className="py-2">Estado</th>
+                    <th className="py-2 text-right">Coste</th>
+                    <th className="py-2 text-right">Precio</th>
+                    <th className="py-2 text-right">Stock</th>
+                    <th className="py-2">Observaciones</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map((r) => {
+                    const b = r.before;
+                    const cost = r.changes.cost ?? b?.cost ?? 0;
+                    const margin = r.changes.margin ?? b?.margin ?? 0;
+                    const oldPrice = b ? calcPrice(b.cost, b.margin) : null;
+                    const newPrice = calcPrice(cost, margin);
+                    return (
+                      <tr key={r.line} className="border-b">
+                        <td className="py-1 text-slate-500">{r.line}</td>
+                        <td className="py-1">{r.code || "-"}</td>
+                        <td className="py-1">{r.changes.name ?? b?.name ?? ""}</td>
+                        <td className="py-1"><span className={`px-2 py-0.5 rounded text-xs ${statusClass[r.status]}`}>{statusLabel[r.status]}</span></td>
+                        <td className="py-1 text-right whitespace-nowrap">{b && r.changes.cost != null ? <>{peso(b.cost)} → <strong>{peso(r.changes.cost)}</strong></> : r.status === "error" ? "-" : peso(cost)}</td>
+                        <td className="py-1 text-right whitespace-nowrap">{oldPrice != null && oldPrice !== newPrice ? <>{peso(oldPrice)} → <strong>{peso(newPrice)}</strong></> : r.status === "error" ? "-" : peso(newPrice)}</td>
+                        <td className="py-1 text-right whitespace-nowrap">{b && r.changes.stock != null ? <>{b.stock} → <strong>{r.changes.stock}</strong></> : (r.changes.stock ?? b?.stock ?? "-")}</td>
+                        <td className="py-1 text-xs">
+                          {r.categoryName && <div>Se crea la categoría "{r.categoryName}"</div>}
+                          {r.messages.map((m, k) => <div key={k} className={r.status === "error" ? "text-red-600" : "text-amber-700"}>{m}</div>)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {visible.length === 0 && (
+                    <tr><td colSpan={8} className="text-center text-slate-500 py-6">Ningún producto cambia</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        {report && (
+          <div className="border rounded-xl p-3 mb-3 text-sm">
+            <p className="font-semibold mb-1">Resultado</p>
+            <p>Creados: {report.created} · Actualizados: {report.updated} · Sin cambios: {report.unchanged} · Omitidos o con error: {report.skipped}</p>
+            {report.failed.map((f, k) => (
+              <p key={k} className="text-red-600">No se guardaron {f.codes.length} productos ({f.codes.slice(0, 5).join(", ")}{f.codes.length > 5 ? "…" : ""}): {f.error}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-slate-500">{toWrite.length} productos para guardar</span>
+          <div className="flex gap-2">
+            <button className="px-3 py-1 rounded border" onClick={onClose}>{report ? "Cerrar" : "Cancelar (Esc)"}</button>
+            <button className="px-3 py-1 rounded bg-black text-white disabled:opacity-60" disabled={busy || toWrite.length === 0 || !!report} onClick={apply}>
+              {busy ? "Importando..." : `Importar ${toWrite.length}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ====================== RECEPCIÓN DE MERCADERÍA ======================
+function ReceivingTab({ products }: { products: Product[] }) {
+  const [supplier, setSupplier] = useState("");
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [costMethod, setCostMethod] = useState<CostMethod>("average");
+  const [scan, setScan] = useState("");
+  const [lines, setLines] = useState<{ code: string; name: string; qty: string; unitCost: string; expiry: string }[]>([]);
+  const [recent, setRecent] = useState<GoodsReceipt[]>([]);
+  const [busy, setBusy] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const productsMap = useMemo(() => new Map(products.map(p => [p.code, p])), [products]);
+
+  useEffect(() => {
+    const qy = query(collection(db, "receipts"), orderBy("at", "desc"), limit(20));
+    const unsub = onSnapshot(qy, (snap) => {
+      const arr: GoodsReceipt[] = [];
+      snap.forEach((d) => {
+        const data: any = d.data();
+        arr.push({
+          id: d.id,
+          at: toISO(data.at),
+          user: data.user || "",
+          supplier: data.supplier || "",
+          invoiceNumber: data.invoiceNumber || "",
+          costMethod: data.costMethod === "last" ? "last" : "average",
+          items: data.items || [],
+          total: Number(data.total || 0),
+        });
+      });
+      setRecent(arr);
+    });
+    return () => unsub();
+  }, []);
+
+  const addLine = (e?: any) => {
+    e?.preventDefault?.();
+    const code = scan.trim();
+    if (!code) return;
+    const prod = productsMap.get(code);
+    if (!prod) { toast.error("Código no encontrado"); return; }
+    setLines((prev) => {
+      const idx = prev.findIndex((l) => l.code === code);
+      if (idx >= 0) {
+        const next = [...prev];
+        next[idx] = { ...next[idx], qty: String(parseNumberOrZero(next[idx].qty) + 1) };
+        return next;
+      }
+      return [{ code, name: prod.name, qty: "1", unitCost: String(prod.cost || 0), expiry: "" }, ...prev];
+    });
+    setScan("");
+  };
+
+  const updateLine = (code: string, field: "qty" | "unitCost" | "expiry", value: string) => {
+    setLines((prev) => prev.map((l) => (l.code === code ? { ...l, [field]: value } : l)));
+  };
+
+  const total = lines.reduce((acc, l) => acc + parseNumberOrZero(l.qty) * parseNumberOrZero(l.unitCost), 0);
+
+  const confirm = async () => {
+    if (!supplier.trim()) { toast.error("Indicá el proveedor"); return; }
+    const valid = lines.map((l) => ({ ...l, q: parseNumberOrZero(l.qty), c: parseNumberOrZero(l.unitCost) }));
+    if (valid.length === 0) { toast.error("No hay productos"); return; }
+    if (valid.some((l) => l.q <= 0 || l.c < 0)) { toast.error("Revisá cantidades y costes"); return; }
+    setBusy(true);
+    try {
+      const receiptRef = doc(collection(db, "receipts"));
+      await runTransaction(db, async (tx) => {
+        const refs = valid.map((l) => doc(db, "products", l.code));
+        const snaps = await Promise.all(refs.map((r) => tx.get(r)));
+        const items: GoodsReceiptItem[] = valid.map((l, i) => {
+          if (!snaps[i].exists()) throw new Error(`Producto no encontrado: ${l.code}`);
+          const p = snaps[i].data() as Product;
+          const prevStock = Number(p.stock || 0);
+          const prevCost = Number(p.cost || 0);
+          const newCost = costMethod === "last" ? l.c : weightedAverageCost(prevStock, prevCost, l.q, l.c);
+          return { code: l.code, name: p.name, qty: l.q, unitCost: l.c, prevStock, prevCost, newCost, ...(l.expiry ? { expiry: l.expiry } : {}) };
+        });
+        const before = snaps.map((snap) => snap.data() as Product);
+        const lotsOf = new Map(before.map((p, i) => [valid[i].code, p.lots ?? []]));
+        const receiptTotal = items.reduce((acc, it) => acc + it.qty * it.unitCost, 0);
+        const reason = [supplier.trim(), invoiceNumber.trim()].filter(Boolean).join(" · ");
+        items.forEach((it, i) => {
+          const stockAfter = roundKg(it.prevStock + it.qty);
+          tx.update(refs[i], {
+            stock: stockAfter,
+            cost: it.newCost,
+            ...(it.expiry ? { lots: fitLots([...lotsOf.get(it.code)!, newLot(it.qty, it.expiry, receiptRef.id)], stockAfter) } : {}),
+          });
+          addStockMovement(tx, { code: it.code, name: it.name, type: "receipt", delta: it.qty, stockAfter, ref: receiptRef.id, reason });
+          addPriceChange(tx, it.code, before[i], { cost: it.newCost, margin: Number(before[i].margin || 0) }, "receipt", receiptRef.id);
+        });
+        tx.set(receiptRef, {
+          at: serverTimestamp(),
+          user: auth.currentUser?.email ?? "desconocido",
+          supplier: supplier.trim(),
+          invoiceNumber: invoiceNumber.trim(),
+          costMethod,
+          items,
+          total: receiptTotal,
+        });
+      });
+      toast.success("Recepción registrada");
+      setLines([]);
+      setSupplier("");
+      setInvoiceNumber("");
+      inputRef.current?.focus();
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo registrar la recepción");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h2 className="text-lg font-semibold mb-1">Recepción de mercadería</h2>
+        <p className="text-sm text-slate-500 mb-3">Escaneá los productos del remito/factura, cargá cantidad y coste unitario y confirmá.</p>
+        <div className="grid sm:grid-cols-4 gap-3 items-end mb-4">
+          <div>
+            <label className="text-sm">Proveedor</label>
+            <input className="w-full border rounded-lg p-2 mt-1" value={supplier} onChange={(e)=>setSupplier(e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm">N° de factura / remito</label>
+            <input className="w-full border rounded-lg p-2 mt-1" value={invoiceNumber} onChange={(e)=>setInvoiceNumber(e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm">Coste resultante</label>
+            <div className="flex gap-2 mt-1">
+              <button className={`flex-1 px-3 py-2 rounded border ${costMethod==="average"?"bg-black text-white":""}`} onClick={()=>setCostMethod("average")}>Promedio</button>
+              <button className={`flex-1 px-3 py-2 rounded border ${costMethod==="last"?"bg-black text-white":""}`} onClick={()=>setCostMethod("last")}>Último</button>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <input ref={inputRef} className="flex-1 border rounded-lg p-2" placeholder="Código de barras" value={scan}
+              onChange={(e)=>setScan(e.target.value)} onKeyDown={(e)=>{ if (e.key === "Enter") addLine(e); }} />
+            <button onClick={addLine} className="border rounded-lg px-4 py-2">Agregar</button>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">Producto</th>
+                <th className="py-2 text-right">Stock actual</th>
+                <th className="py-2 text-right">Coste actual</th>
+                <th className="py-2 text-right">Cantidad</th>
+                <th className="py-2 text-right">Coste unit.</th>
+                <th className="py-2 text-right">Vence</th>
+                <th className="py-2 text-right">Coste nuevo</th>
+                <th className="py-2 text-right">Subtotal</th>
+                <th className="py-2 text-right">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map((l) => {
+                const p = productsMap.get(l.code);
+                const q = parseNumberOrZero(l.qty);
+                const c = parseNumberOrZero(l.unitCost);
+                const newCost = costMethod === "last" ? c : weightedAverageCost(p?.stock ?? 0, p?.cost ?? 0, q, c);
+                return (
+                  <tr key={l.code} className="border-b">
+                    <td className="py-2">{l.name} <span className="text-xs text-slate-500 font-mono">{l.code}</span></td>
+                    <td className="py-2 text-right">{p?.stock ?? 0}</td>
+                    <td className="py-2 text-right">{peso(p?.cost ?? 0)}</td>
+                    <td className="py-2 text-right">
+                      <input type="number" className="w-20 border rounded-lg p-1 text-right" value={l.qty} onChange={(e)=>updateLine(l.code, "qty", e.target.value)} />
+                    </td>
+                    <td className="py-2 text-right">
+                      <input type="number" className="w-24 border rounded-lg p-1 text-right" value={l.unitCost} onChange={(e)=>updateLine(l.code, "unitCost", e.target.value)} />
+                    </td>
+                    <td className="py-2 text-right">
+                      <input type="date" className="border rounded-lg p-1" value={l.expiry} onChange={(e)=>updateLine(l.code, "expiry", e.target.value)} title="Opcional: crea un lote con vencimiento" />
+                    </td>
+                    <td className="py-2 text-right">{peso(newCost)}</td>
+                    <td className="py-2 text-right">{peso(q * c)}</td>
+                    <td className="py-2 text-right">
+                      <button className="border rounded-lg px-3 py-1" onClick={()=>setLines((prev)=>prev.filter((x)=>x.code !== l.code))}>Eliminar</button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {lines.length === 0 && (
+                <tr><td colSpan={9} className="text-center text-slate-500 py-6">Sin productos escaneados</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex items-center justify-end gap-4 mt-4">
+          <span className="text-lg">Total: <strong>{peso(total)}</strong></span>
+          <button onClick={confirm} disabled={busy || lines.length === 0} className="bg-black text-white rounded-lg px-4 py-2 disabled:opacity-60">Confirmar recepción</button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h2 className="text-lg font-semibold mb-3">Últimas recepciones</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">Fecha</th>
+                <th className="py-2">Proveedor</th>
+                <th className="py-2">Factura</th>
+                <th className="py-2">Detalle</th>
+                <th className="py-2">Usuario</th>
+                <th className="py-2 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recent.map((r) => (
+                <tr key={r.id} className="border-b">
+                  <td className="py-2 whitespace-nowrap">{fmtDateTime(r.at)}</td>
+                  <td className="py-2">{r.supplier}</td>
+                  <td className="py-2">{r.invoiceNumber}</td>
+                  <td className="py-2">
+                    <ul className="list-disc pl-5 text-sm text-slate-700">
+                      {r.items.map((it) => (
+                        <li key={`${r.id}-${it.code}`}>{it.name} x{it.qty} — {peso(it.unitCost)} c/u (coste {peso(it.prevCost)} → {peso(it.newCost)}){it.expiry ? ` · vence ${it.expiry}` : ""}</li>
+                      ))}
+                    </ul>
+                  </td>
+                  <td className="py-2">{r.user}</td>
+                  <td className="py-2 text-right font-semibold">{peso(r.total)}</td>
+                </tr>
+              ))}
+              {recent.length === 0 && (
+                <tr><td colSpan={6} className="text-center text-slate-500 py-6">Sin recepciones registradas</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ====================== MERMA ======================
+const WASTE_REASONS: { key: WasteReason; label: string }[] = [
+  { key: "expired", label: "Vencido" },
+  { key: "broken", label: "Roto" },
+  { key: "tasting", label: "Degustación" },
+  { key: "donation", label: "Donación" },
+];
+function wasteReasonLabel(r: string) {
+  return WASTE_REASONS.find((x) => x.key === r)?.label ?? r;
+}
+
+// waste/{id} es inmutable; el coste del día se suma al resumen diario en la misma transacción
+function addWasteRecord(
+  w: { set: (ref: DocumentReference, data: any, options?: any) => unknown },
+  ref: DocumentReference,
+  reason: WasteReason,
+  items: WasteItem[],
+  note: string,
+) {
+  const localDate = todayLocalDateAR();
+  const cost = items.reduce((acc, it) => acc + it.qty * it.unitCost, 0);
+  w.set(ref, {
+    at: serverTimestamp(),
+    localDate,
+    user: auth.currentUser?.email ?? "desconocido",
+    reason,
+    note,
+    items,
+    cost,
+  });
+  addToDailySummary(w, tallyWaste(emptySummary(localDate), reason, cost));
+}
+
+async function recordWaste(lines: { code: string; qty: number }[], reason: WasteReason, note: string) {
+  const wasteRef = doc(collection(db, "waste"));
+  await runTransaction(db, async (tx) => {
+    const refs = lines.map((l) => doc(db, "products", l.code));
+    const snaps = await Promise.all(refs.map((r) => tx.get(r)));
+    const prods = snaps.map((snap, i) => {
+      if (!snap.exists()) throw new Error(`Producto no encontrado: ${lines[i].code}`);
+      const p = snap.data() as Product;
+      if ((p.stock || 0) < lines[i].qty) throw new Error(`Stock insuficiente de ${p.name} (hay ${p.stock})`);
+      return p;
+    });
+    const items: WasteItem[] = lines.map((l, i) => ({ code: l.code, name: prods[i].name, qty: l.qty, unitCost: Number(prods[i].cost || 0) }));
+    items.forEach((it, i) => {
+      const p = prods[i];
+      const stockAfter = roundKg((p.stock || 0) - it.qty);
+      tx.update(refs[i], { stock: stockAfter, ...(p.lots?.length ? { lots: consumeLots(p.lots, it.qty) } : {}) });
+      addStockMovement(tx, { code: it.code, name: it.name, type: "waste", delta: -it.qty, stockAfter, ref: wasteRef.id, reason: [wasteReasonLabel(reason), note].filter(Boolean).join(" · ") });
+    });
+    addWasteRecord(tx, wasteRef, reason, items, note);
+  });
+}
+
+function WasteTab({ products }: { products: Product[] }) {
+  const [reason, setReason] = useState<WasteReason>("expired");
+  const [note, setNote] = useState("");
+  const [scan, setScan] = useState("");
+  const [lines, setLines] = useState<{ code: string; name: string; qty: string }[]>([]);
+  const [recent, setRecent] = useState<WasteRecord[]>([]);
+  const [busy, setBusy] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const productsMap = useMemo(() => new Map(products.map(p => [p.code, p])), [products]);
+  const suggestions = useMemo(
+    () => (scan.trim() && !productsMap.has(scan.trim()) ? searchProducts(products, scan, 6) : []),
+    [products, productsMap, scan],
+  );
+
+  useEffect(() => {
+    const qy = query(collection(db, "waste"), orderBy("at", "desc"), limit(20));
+    const unsub = onSnapshot(qy, (snap) => {
+      setRecent(snap.docs.map((d) => {
+        const data: any = d.data();
+        return {
+          id: d.id,
+          at: toISO(data.at),
+          localDate: data.localDate || "",
+          user: data.user || "",
+          reason: data.reason,
+          note: data.note || "",
+          items: data.items || [],
+          cost: Number(data.cost || 0),
+        };
+      }));
+    });
+    return () => unsub();
+  }, []);
+
+  const addProduct = (prod: Product) => {
+    setLines((prev) => {
+      const idx = prev.findIndex((l) => l.code === prod.code);
+      if (idx >= 0) {
+        const next = [...prev];
+        next[idx] = { ...next[idx], qty: String(parseNumberOrZero(next[idx].qty) + 1) };
+        return next;
+      }
+      return [{ code: prod.code, name: prod.name, qty: "1" }, ...prev];
+    });
+    setScan("");
+    inputRef.current?.focus();
+  };
+
+  const addLine = (e?: any) => {
+    e?.preventDefault?.();
+    const code = scan.trim();
+    if (!code) return;
+    const prod = productsMap.get(code) ?? suggestions[0];
+    if (!prod) { toast.error("Producto no encontrado"); return; }
+    addProduct(prod);
+  };
+
+  const updateQty = (code: string, value: string) => {
+    setLines((prev) => prev.map((l) => (l.code === code ? { ...l, qty: value } : l)));
+  };
+
+  const total = lines.reduce((acc, l) => acc + parseNumberOrZero(l.qty) * (productsMap.get(l.code)?.cost ?? 0), 0);
+
+  const confirm = async () => {
+    const valid = lines.map((l) => ({ code: l.code, qty: parseNumberOrZero(l.qty) }));
+    if (valid.length === 0) { toast.error("No hay productos"); return; }
+    if (valid.some((l) => l.qty <= 0)) { toast.error("Revisá las cantidades"); return; }
+    setBusy(true);
+    try {
+      await recordWaste(valid, reason, note.trim());
+      toast.success("Merma registrada");
+      setLines([]);
+      setNote("");
+      inputRef.current?.focus();
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo registrar la merma");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h2 className="text-lg font-semibold mb-1">Merma</h2>
+        <p className="text-sm text-slate-500 mb-3">Registrá lo que se tira, se rompe, se da a probar o se dona. Se descuenta del stock y su coste aparece en el balance.</p>
+        <div className="grid sm:grid-cols-3 gap-3 items-end mb-4">
+          <div>
+            <label className="text-sm">Motivo</label>
+            <div className="flex gap-2 mt-1">
+              {WASTE_REASONS.map((r) => (
+                <button key={r.key} className={`flex-1 px-3 py-2 rounded border ${reason===r.key?"bg-black text-white":""}`} onClick={()=>setReason(r.key)}>{r.label}</button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="text-sm">Nota (opcional)</label>
+            <input className="w-full border rounded-lg p-2 mt-1" placeholder="Ej.: donado al comedor" value={note} onChange={(e)=>setNote(e.target.value)} />
+          </div>
+          <div className="relative">
+            <div className="flex gap-2">
+              <input ref={inputRef} className="flex-1 border rounded-lg p-2" placeholder="Código o nombre" value={scan}
+                onChange={(e)=>setScan(e.target.value)} onKeyDown={(e)=>{ if (e.key === "Enter") addLine(e); }} />
+              <button onClick={addLine} className="border rounded-lg px-4 py-2">Agregar</button>
+            </div>
+            {suggestions.length > 0 && (
+              <div className="absolute z-10 left-0 right-0 mt-1 bg-white border rounded-lg shadow">
+                {suggestions.map((p) => (
+                  <button key={p.code} className="w-full text-left px-3 py-2 text-sm hover:bg-slate-100" onClick={()=>addProduct(p)}>
+                    {p.name} <span className="text-xs text-slate-500">stock {p.stock}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">Producto</th>
+                <th className="py-2 text-right">Stock actual</th>
+                <th className="py-2 text-right">Cantidad</th>
+                <th className="py-2 text-right">Coste unit.</th>
+                <th className="py-2 text-right">Coste</th>
+                <th className="py-2 text-right">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map((l) => {
+                const p = productsMap.get(l.code);
+                const q = parseNumberOrZero(l.qty);
+                return (
+                  <tr key={l.code} className="border-b">
+                    <td className="py-2">{l.name} <span className="text-xs text-slate-500 font-mono">{l.code}</span></td>
+                    <td className="py-2 text-right">{p?.stock ?? 0}</td>
+                    <td className="py-2 text-right">
+                      <input type="number" className="w-20 border rounded-lg p-1 text-right" value={l.qty} onChange={(e)=>updateQty(l.code, e.target.value)} />
+                    </td>
+                    <td className="py-2 text-right">{peso(p?.cost ?? 0)}</td>
+                    <td className="py-2 text-right">{peso(q * (p?.cost ?? 0))}</td>
+                    <td className="py-2 text-right">
+                      <button className="border rounded-lg px-3 py-1" onClick={()=>setLines((prev)=>prev.filter((x)=>x.code !== l.code))}>Eliminar</button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {lines.length === 0 && (
+                <tr><td colSpan={6} className="text-center text-slate-500 py-6">Sin productos cargados</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex items-center justify-end gap-4 mt-4">
+          <span className="text-lg">Coste: <strong>{peso(total)}</strong></span>
+          <button onClick={confirm} disabled={busy || lines.length === 0} className="bg-black text-white rounded-lg px-4 py-2 disabled:opacity-60">Registrar merma</button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h2 className="text-lg font-semibold mb-3">Últimas mermas</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">Fecha</th>
+                <th className="py-2">Motivo</th>
+                <th className="py-2">Detalle</th>
+                <th className="py-2">Usuario</th>
+                <th className="py-2 text-right">Coste</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recent.map((r) => (
+                <tr key={r.id} className="border-b">
+                  <td className="py-2 whitespace-nowrap">{fmtDateTime(r.at)}</td>
+                  <td className="py-2">{wasteReasonLabel(r.reason)}{r.note ? <div className="text-xs text-slate-500">{r.note}</div> : null}</td>
+                  <td className="py-2">
+                    <ul className="list-disc pl-5 text-sm text-slate-700">
+                      {r.items.map((it) => (
+                        <li key={`${r.id}-${it.code}`}>{it.name} x{fmtKg(it.qty)} — {peso(it.unitCost)} c/u</li>
+                      ))}
+                    </ul>
+                  </td>
+                  <td className="py-2">{r.user}</td>
+                  <td className="py-2 text-right font-semibold">{peso(r.cost)}</td>
+                </tr>
+              ))}
+              {recent.length === 0 && (
+                <tr><td colSpan={5} className="text-center text-slate-500 py-6">Sin mermas registradas</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ====================== RECETAS Y PRODUCCIÓN ======================
+function ProductionTab({ products, recipes }: { products: Product[]; recipes: Recipe[] }) {
+  const productsMap = useMemo(() => new Map(products.map(p => [p.code, p])), [products]);
+  const ingredients = useMemo(() => products.filter((p) => p.kind === "ingredient"), [products]);
+  const finished = useMemo(() => products.filter((p) => p.kind !== "ingredient"), [products]);
+  const recipesMap = useMemo(() => new Map(recipes.map(r => [r.productCode, r])), [recipes]);
+
+  // --- Editor de receta ---
+  const [editCode, setEditCode] = useState("");
+  const [editYield, setEditYield] = useState("1");
+  const [editLines, setEditLines] = useState<{ code: string; qty: string }[]>([]);
+  const [newIngredient, setNewIngredient] = useState("");
+
+  const loadRecipe = (code: string) => {
+    setEditCode(code);
+    const r = recipesMap.get(code);
+    setEditYield(String(r?.yield ?? 1));
+    setEditLines(r ? r.items.map((it) => ({ code: it.code, qty: String(it.qty) })) : []);
+  };
+
+  const draft: Recipe = {
+    productCode: editCode,
+    yield: parseNumberOrZero(editYield),
+    items: editLines.map((l) => ({ code: l.code, qty: parseNumberOrZero(l.qty) })),
+  };
+  const draftUnitCost = recipeUnitCost(draft, productsMap);
+
+  const saveRecipe = async () => {
+    if (!editCode) { toast.error("Elegí el producto terminado"); return; }
+    if (draft.yield <= 0) { toast.error("El rendimiento debe ser mayor a 0"); return; }
+    if (draft.items.length === 0 || draft.items.some((it) => it.qty <= 0)) { toast.error("Revisá las cantidades de los insumos"); return; }
+    try {
+      await runTransaction(db, async (tx) => {
+        const productRef = doc(db, "products", editCode);
+        const fresh = await readProductsTx(tx, [editCode, ...draft.items.map((it) => it.code)]);
+        const p = fresh.get(editCode);
+        if (!p) throw new Error("Producto no encontrado");
+        const unitCost = recipeUnitCost(draft, fresh);
+        tx.set(doc(db, "recipes", editCode), {
+          productCode: editCode,
+          yield: draft.yield,
+          items: draft.items,
+          updatedAt: serverTimestamp(),
+          updatedBy: auth.currentUser?.email ?? "desconocido",
+        });
+        // El coste del producto pasa a derivarse de la receta
+        tx.update(productRef, { cost: unitCost, costSource: "recipe", kind: "produced" });
+        addPriceChange(tx, editCode, p, { cost: unitCost, margin: Number(p.margin || 0) }, "recipe");
+      });
+      toast.success("Receta guardada");
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo guardar la receta");
+    }
+  };
+
+  const refreshCosts = async () => {
+    let count = 0;
+    try {
+      // Terminados e insumos se leen en la transacción: coste nuevo y anterior salen de los documentos actuales
+      const perBatch = Math.floor(BATCH_LIMIT / 2);
+      for (let i = 0; i < recipes.length; i += perBatch) {
+        const chunk = recipes.slice(i, i + perBatch);
+        count += await runTransaction(db, async (tx) => {
+          const fresh = await readProductsTx(tx, chunk.flatMap((r) => [r.productCode, ...r.items.map((it) => it.code)]));
+          let changed = 0;
+          chunk.forEach((r) => {
+            const p = fresh.get(r.productCode);
+            if (!p) return;
+            const c = recipeUnitCost(r, fresh);
+            if (c === Number(p.cost || 0)) return;
+            tx.update(doc(db, "products", r.productCode), { cost: c, costSource: "recipe" });
+            addPriceChange(tx, r.productCode, p, { cost: c, margin: Number(p.margin || 0) }, "recipe");
+            changed++;
+          });
+          return changed;
+        });
+      }
+      if (count === 0) { toast.info("Los costes ya están al día"); return; }
+      toast.success(`${count} costes actualizados`);
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudieron actualizar los costes");
+    }
+  };
+
+  // --- Producción ---
+  const [prodCode, setProdCode] = useState("");
+  const [batches, setBatches] = useState("1");
+  const [busy, setBusy] = useState(false);
+  const [history, setHistory] = useState<ProductionBatch[]>([]);
+  const prodRecipe = recipesMap.get(prodCode);
+  const batchCount = parseNumberOrZero(batches);
+
+  useEffect(() => {
+    const qy = query(collection(db, "productions"), orderBy("at", "desc"), limit(20));
+    const unsub = onSnapshot(qy, (snap) => {
+      const arr: ProductionBatch[] = [];
+      snap.forEach((d) => {
+        const data: any = d.data();
+        arr.push({
+          id: d.id,
+          at: toISO(data.at),
+          user: data.user || "",
+          productCode: data.productCode,
+          productName: data.productName || "",
+          batches: Number(data.batches || 0),
+          units: Number(data.units || 0),
+          unitCost: Number(data.unitCost || 0),
+          consumed: data.consumed || [],
+        });
+      });
+      setHistory(arr);
+    });
+    return () => unsub();
+  }, []);
+
+  const produce = async () => {
+    if (!prodRecipe) { toast.error("El producto no tiene receta"); return; }
+    if (batchCount <= 0) { toast.error("Indicá cuántas tandas"); return; }
+    setBusy(true);
+    try {
+      const productionRef = doc(collection(db, "productions"));
+      const units = prodRecipe.yield * batchCount;
+      await runTransaction(db, async (tx) => {
+        const finishedRef = doc(db, "products", prodRecipe.productCode);
+        const ingRefs = prodRecipe.items.map((it) => doc(db, "products", it.code));
+        const [finishedSnap, ...ingSnaps] = await Promise.all([tx.get(finishedRef), ...ingRefs.map((r) => tx.get(r))]);
+        if (!finishedSnap.exists()) throw new Error("Producto terminado no encontrado");
+        const fp = finishedSnap.data() as Product;
+
+        const fresh = new Map<string, Product>();
+        const consumed = prodRecipe.items.map((it, i) => {
+          const snap = ingSnaps[i];
+          if (!snap.exists()) throw new Error(`Insumo no encontrado: ${it.code}`);
+          const ing = snap.data() as Product;
+          fresh.set(it.code, ing);
+          const qty = roundKg(it.qty * batchCount);
+          if ((ing.stock || 0) < qty) throw new Error(`Stock insuficiente de ${ing.name} (hay ${ing.stock}, se necesitan ${qty})`);
+          return { code: it.code, name: ing.name, qty, cost: Number(ing.cost || 0) };
+        });
+        const unitCost = recipeUnitCost(prodRecipe, fresh);
+        const reason = `Producción de ${fp.name}`;
+
+        consumed.forEach((c, i) => {
+          const ing = fresh.get(c.code)!;
+          const stockAfter = roundKg((ing.stock || 0) - c.qty);
+          tx.update(ingRefs[i], { stock: stockAfter, ...(ing.lots?.length ? { lots: consumeLots(ing.lots, c.qty) } : {}) });
+          addStockMovement(tx, { code: c.code, name: c.name, type: "production", delta: -c.qty, stockAfter, ref: productionRef.id, reason });
+        });
+        const finishedAfter = roundKg((fp.stock || 0) + units);
+        tx.update(finishedRef, { stock: finishedAfter, cost: unitCost, costSource: "recipe" });
+        addPriceChange(tx, fp.code, fp, { cost: unitCost, margin: Number(fp.margin || 0) }, "recipe", productionRef.id);
+        addStockMovement(tx, { code: fp.code, name: fp.name, type: "production", delta: units, stockAfter: finishedAfter, ref: productionRef.id, reason });
+
+        tx.set(productionRef, {
+          at: serverTimestamp(),
+          user: auth.currentUser?.email ?? "desconocido",
+          productCode: fp.code,
+          productName: fp.name,
+          batches: batchCount,
+          units,
+          unitCost,
+          consumed,
+        });
+      });
+      toast.success(`Producidas ${units} unidades`);
+      setBatches("1");
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo registrar la producción");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid lg:grid-cols-2 gap-4">
+        <div className="bg-white rounded-2xl border p-4 shadow-sm">
+          <h2 className="text-lg font-semibold mb-1">Receta</h2>
+          <p className="text-sm text-slate-500 mb-3">Cuánto de cada insumo rinde N unidades del producto terminado.</p>
+          <div className="grid sm:grid-cols-3 gap-3 mb-3">
+            <div className="sm:col-span-2">
+              <label className="text-sm">Producto terminado</label>
+              <select className="w-full border rounded-lg p-2 mt-1" value={editCode} onChange={(e)=>loadRecipe(e.target.value)}>
+                <option value="">Elegí…</option>
+                {finished.map((p) => <option key={p.code} value={p.code}>{p.name}{recipesMap.has(p.code) ? " ✓" : ""}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm">Rinde (unidades)</label>
+              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={editYield} onChange={(e)=>setEditYield(e.target.value)} />
+            </div>
+          </div>
+          <table className="w-full text-sm mb-3">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">Insumo</th>
+                <th className="py-2 text-right">Cantidad</th>
+                <th className="py-2 text-right">Coste</th>
+                <th className="py-2 text-right"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {editLines.map((l) => {
+                const ing = productsMap.get(l.code);
+                return (
+                  <tr key={l.code} className="border-b">
+                    <td className="py-2">{ing?.name ?? l.code} <span className="text-xs text-slate-500">{ing?.unit ?? ""}</span></td>
+                    <td className="py-2 text-right">
+                      <input type="number" className="w-24 border rounded-lg p-1 text-right" value={l.qty}
+                        onChange={(e)=>setEditLines((prev)=>prev.map((x)=>x.code===l.code ? { ...x, qty: e.target.value } : x))} />
+                    </td>
+                    <td className="py-2 text-right">{peso(Number(ing?.cost || 0) * parseNumberOrZero(l.qty))}</td>
+                    <td className="py-2 text-right">
+                      <button className="border rounded-lg px-3 py-1" onClick={()=>setEditLines((prev)=>prev.filter((x)=>x.code!==l.code))}>Quitar</button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {editLines.length === 0 && (
+                <tr><td colSpan={4} className="text-center text-slate-500 py-4">Sin insumos</td></tr>
+              )}
+            </tbody>
+          </table>
+          <div className="flex gap-2 mb-3">
+            <select className="flex-1 border rounded-lg p-2" value={newIngredient} onChange={(e)=>setNewIngredient(e.target.value)}>
+              <option value="">Agregar insumo…</option>
+              {ingredients.filter((i) => !editLines.some((l) => l.code === i.code)).map((i) => (
+                <option key={i.code} value={i.code}>{i.name}{i.unit ? ` (${i.unit})` : ""}</option>
+              ))}
+            </select>
+            <button className="border rounded-lg px-4 py-2" onClick={()=>{
+              if (!newIngredient) return;
+              setEditLines((prev)=>[...prev, { code: newIngredient, qty: "" }]);
+              setNewIngredient("");
+            }}>Agregar</button>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="text-sm">
+              Coste unitario: <strong>{peso(draftUnitCost)}</strong>
+              {editCode && (
+                <span className="text-slate-500"> · precio con margen actual: {peso(calcPrice(draftUnitCost, productsMap.get(editCode)?.margin ?? 0))}</span>
+              )}
+            </div>
+            <button onClick={saveRecipe} className="bg-black text-white rounded-lg px-4 py-2">Guardar receta</button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl border p-4 shadow-sm">
+          <h2 className="text-lg font-semibold mb-1">Producir tanda</h2>
+          <p className="text-sm text-slate-500 mb-3">Descuenta insumos y suma el producto terminado al stock.</p>
+          <div className="grid sm:grid-cols-3 gap-3 mb-3">
+            <div className="sm:col-span-2">
+              <label className="text-sm">Receta</label>
+              <select className="w-full border rounded-lg p-2 mt-1" value={prodCode} onChange={(e)=>setProdCode(e.target.value)}>
+                <option value="">Elegí…</option>
+                {recipes.map((r) => <option key={r.productCode} value={r.productCode}>{productsMap.get(r.productCode)?.name ?? r.productCode}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-sm">Tandas</label>
+              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={batches} onChange={(e)=>setBatches(e.target.value)} />
+            </div>
+          </div>
+          {prodRecipe && (
+            <>
+              <p className="text-sm mb-2">Resultado: <strong>{prodRecipe.yield * batchCount}</strong> unidades</p>
+              <table className="w-full text-sm mb-3">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="py-2">Insumo</th>
+                    <th className="py-2 text-right">Necesario</th>
+                    <th className="py-2 text-right">Disponible</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {prodRecipe.items.map((it) => {
+                    const ing = productsMap.get(it.code);
+                    const need = roundKg(it.qty * batchCount);
+                    return (
+                      <tr key={it.code} className={`border-b ${(ing?.stock ?? 0) < need ? "bg-red-50" : ""}`}>
+                        <td className="py-2">{ing?.name ?? it.code}</td>
+                        <td className="py-2 text-right">{need} {ing?.unit ?? ""}</td>
+                        <td className="py-2 text-right">{ing?.stock ?? 0} {ing?.unit ?? ""}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </>
+          )}
+          <div className="flex justify-between gap-2">
+            <button onClick={refreshCosts} className="border rounded-lg px-4 py-2">Actualizar costes desde recetas</button>
+            <button onClick={produce} disabled={busy || !prodRecipe} className="bg-black text-white rounded-lg px-4 py-2 disabled:opacity-60">Producir</button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h2 className="text-lg font-semibold mb-3">Últimas producciones</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">Fecha</th>
+                <th className="py-2">Producto</th>
+                <th className="py-2 text-right">Tandas</th>
+                <th className="py-2 text-right">Unidades</th>
+                <th className="py-2 text-right">Coste unit.</th>
+                <th className="py-2">Usuario</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((h) => (
+                <tr key={h.id} className="border-b" title={h.consumed.map((c) => `${c.name}: ${c.qty}`).join(", ")}>
+                  <td className="py-2 whitespace-nowrap">{fmtDateTime(h.at)}</td>
+                  <td className="py-2">{h.productName}</td>
+                  <td className="py-2 text-right">{h.batches}</td>
+                  <td className="py-2 text-right">{h.units}</td>
+                  <td className="py-2 text-right">{peso(h.unitCost)}</td>
+                  <td className="py-2">{h.user}</td>
+                </tr>
+              ))}
+              {history.length === 0 && (
+                <tr><td colSpan={6} className="text-center text-slate-500 py-6">Sin producciones registradas</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ====================== PROMOCIONES ======================
+const WEEKDAYS = ["Dom", "Lun", "Mar", "Mié", "Jue", "Vie", "Sáb"];
+
+// Día de la semana (0 = domingo) y hora HH:MM en Argentina
+function nowPartsAR(now: Date) {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone: AR_TZ, weekday: "short", hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).formatToParts(now);
+  const get = (t: string) => parts.find((p) => p.type === t)?.value ?? "";
+  return { weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(get("weekday")), time: `${get("hour")}:${get("minute")}` };
+}
+
+function promoInWindow(p: Promotion, now: Date) {
+  if (!p.active) return false;
+  const today = todayLocalDateAR();
+  if (p.dateFrom && today < p.dateFrom) return false;
+  if (p.dateTo && today > p.dateTo) return false;
+  const { weekday, time } = nowPartsAR(now);
+  if (p.weekdays && p.weekdays.length > 0 && !p.weekdays.includes(weekday)) return false;
+  if (p.timeFrom && time < p.timeFrom) return false;
+  if (p.timeTo && time > p.timeTo) return false;
+  return true;
+}
+
+function promoSummary(p: Promotion) {
+  switch (p.kind) {
+    case "nxm": return `${p.buy ?? 0}x${p.pay ?? 0}`;
+    case "bundle": return `${p.bundleQty ?? 0} por ${peso(p.price ?? 0)}`;
+    case "combo": return `Combo a ${peso(p.price ?? 0)}`;
+    case "percent": return `${p.percent ?? 0}% off${p.minQty ? ` desde ${p.minQty} u.` : ""}`;
+  }
+}
+
+type PricedCart = { items: SaleItem[]; discounts: SaleDiscount[]; subtotal: number; total: number };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Evalúa las promociones vigentes sobre el carrito. Primero las de unidades (NxM, pack, combo)
+// y después los porcentajes sobre lo que queda; el descuento se reparte por línea para devoluciones y balance.
+// method = medio de pago único de la venta (null si todavía no se eligió o el pago es dividido)
+function applyPromotions(
+  cart: SaleItem[],
+  promotions: Promotion[],
+  productsMap: Map<string, Product>,
+  method: PaymentMethod | null,
+  now = new Date(),
+): PricedCart {
+  const gross = cart.map((i) => i.price * i.qty);
+  const disc = cart.map(() => 0);
+  const discounts: SaleDiscount[] = [];
+
+  const inScope = (p: Promotion, i: SaleItem) => {
+    const byCode = (p.codes ?? []).length > 0;
+    if (byCode && p.codes!.includes(i.code)) return true;
+    if (p.category && productsMap.get(i.code)?.category === p.category) return true;
+    return !byCode && !p.category;
+  };
+  // Unidades enteras (las líneas pesadas no cuentan para NxM/pack/combo), de la más cara a la más barata
+  const unitsOf = (p: Promotion, code?: string) => cart
+    .flatMap((i, idx) => (i.weight == null && (code ? i.code === code : inScope(p, i)))
+      ? Array.from({ length: Math.floor(i.qty) }, () => ({ idx, price: (gross[idx] - disc[idx]) / i.qty }))
+      : [])
+    .sort((a, b) => b.price - a.price);
+  // Reparte el descuento de un grupo proporcional al precio de cada unidad
+  const spread = (group: { idx: number; price: number }[], amount: number) => {
+    const sum = group.reduce((acc, u) => acc + u.price, 0);
+    if (sum <= 0 || amount <= 0) return 0;
+    let given = 0;
+    group.forEach((u, k) => {
+      // la última unidad absorbe el redondeo
+      const share = k === group.length - 1 ? amount - given : (amount * u.price) / sum;
+      const a = round2(Math.min(u.price, share));
+      disc[u.idx] += a;
+      given += a;
+    });
+    return given;
+  };
+
+  const order: PromotionKind[] = ["nxm", "bundle", "combo", "percent"];
+  const active = promotions
+    .filter((p) => promoInWindow(p, now) && (!p.paymentMethod || p.paymentMethod === method))
+    .sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind));
+
+  for (const p of active) {
+    let amount = 0;
+    if (p.kind === "nxm") {
+      const buy = Math.floor(p.buy ?? 0), pay = Math.floor(p.pay ?? 0);
+      if (buy <= 0 || pay < 0 || pay >= buy) continue;
+      const units = unitsOf(p);
+      for (let g = 0; g + buy <= units.length; g += buy) {
+        // en cada grupo se regalan las más baratas
+        units.slice(g + pay, g + buy).forEach((u) => { amount += spread([u], u.price); });
+      }
+    } else if (p.kind === "bundle") {
+      const size = Math.floor(p.bundleQty ?? 0);
+      if (size <= 0 || p.price == null) continue;
+      const units = unitsOf(p);
+      for (let g = 0; g + size <= units.length; g += size) {
+        const group = units.slice(g, g + size);
+        amount += spread(group, group.reduce((acc, u) => acc + u.price, 0) - p.price);
+      }
+    } else if (p.kind === "combo") {
+      const codes = p.codes ?? [];
+      if (codes.length === 0 || p.price == null) continue;
+      const perCode = codes.map((c) => unitsOf(p, c));
+      const sets = Math.min(...perCode.map((u) => u.length));
+      for (let k = 0; k < sets; k++) {
+        const group = perCode.map((u) => u[k]);
+        amount += spread(group, group.reduce((acc, u) => acc + u.price, 0) - p.price);
+      }
+    } else if (p.kind === "percent") {
+      const pct = Math.min(100, Math.max(0, Number(p.percent ?? 0)));
+      const lines = cart.map((i, idx) => ({ i, idx })).filter(({ i }) => inScope(p, i));
+      const qty = lines.reduce((acc, { i }) => acc + i.qty, 0);
+      if (pct <= 0 || lines.length === 0 || qty < (p.minQty ?? 0)) continue;
+      lines.forEach(({ idx }) => {
+        const a = round2(((gross[idx] - disc[idx]) * pct) / 100);
+        disc[idx] += a;
+        amount += a;
+      });
+    }
+    if (amount > 0) discounts.push({ promoId: p.id, name: p.name, amount: round2(amount) });
+  }
+
+  const items = cart.map((i, idx) => (disc[idx] > 0 ? { ...i, discount: round2(disc[idx]) } : i));
+  const subtotal = gross.reduce((acc, g) => acc + g, 0);
+  const total = round2(subtotal - discounts.reduce((acc, d) => acc + d.amount, 0));
+  return { items, discounts, subtotal, total };
+}
+
+const EMPTY_PROMO: Promotion = { id: "", name: "", kind: "nxm", active: true, codes: [], buy: 2, pay: 1 };
+
+function PromotionsTab({
+  products, categories, promotions, paymentMethods,
+}: { products: Product[]; categories: Category[]; promotions: Promotion[]; paymentMethods: PaymentMethodDef[] }) {
+  const productsMap = useMemo(() => new Map(products.map(p => [p.code, p])), [products]);
+  const sellable = useMemo(() => products.filter((p) => p.kind !== "ingredient"), [products]);
+  const [draft, setDraft] = useState<Promotion>(EMPTY_PROMO);
+  const [newCode, setNewCode] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const set = (patch: Partial<Promotion>) => setDraft((d) => ({ ...d, ...patch }));
+  const numOrUndef = (v: string) => (v.trim() === "" ? undefined : parseNumberOrZero(v));
+
+  const save = async () => {
+    if (!draft.name.trim()) { toast.error("Poné un nombre a la promoción"); return; }
+    if (draft.kind === "nxm" && !((draft.buy ?? 0) > (draft.pay ?? 0) && (draft.pay ?? -1) >= 0)) { toast.error("En NxM, N tiene que ser mayor que M"); return; }
+    if (draft.kind === "bundle" && (!(draft.bundleQty! > 0) || draft.price == null)) { toast.error("Indicá cantidad y precio del pack"); return; }
+    if (draft.kind === "combo" && ((draft.codes ?? []).length < 2 || draft.price == null)) { toast.error("El combo necesita al menos dos productos y un precio"); return; }
+    if (draft.kind === "percent" && !(draft.percent! > 0 && draft.percent! <= 100)) { toast.error("El porcentaje debe estar entre 1 y 100"); return; }
+    setSaving(true);
+    try {
+      const ref = draft.id ? doc(db, "promotions", draft.id) : doc(collection(db, "promotions"));
+      // Firestore no acepta undefined: solo se guardan los campos cargados
+      const data = Object.fromEntries(Object.entries({ ...draft, id: undefined, name: draft.name.trim() })
+        .filter(([, v]) => v !== undefined && v !== "" && !(Array.isArray(v) && v.length === 0)));
+      await setDoc(ref, { ...data, updatedAt: serverTimestamp(), updatedBy: auth.currentUser?.email ?? "desconocido" });
+      toast.success("Promoción guardada");
+      setDraft(EMPTY_PROMO);
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo guardar la promoción");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggle = async (p: Promotion) => {
+    try {
+      await updateDoc(doc(db, "promotions", p.id), { active: !p.active });
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo actualizar la promoción");
+    }
+  };
+
+  const remove = async (p: Promotion) => {
+    if (!confirm(`¿Borrar la promoción "${p.name}"?`)) return;
+    try {
+      await deleteDoc(doc(db, "promotions", p.id));
+      if (draft.id === p.id) setDraft(EMPTY_PROMO);
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo borrar la promoción");
+    }
+  };
+
+  const windowLabel = (p: Promotion) => [
+    p.dateFrom || p.dateTo ? `${p.dateFrom ?? "…"} → ${p.dateTo ?? "…"}` : "",
+    p.weekdays?.length ? p.weekdays.map((d) => WEEKDAYS[d]).join(" ") : "",
+    p.timeFrom || p.timeTo ? `${p.timeFrom ?? "00:00"}–${p.timeTo ?? "23:59"}` : "",
+    p.paymentMethod ? `pagando con ${paymentMethods.find((m) => m.key === p.paymentMethod)?.label ?? p.paymentMethod}` : "",
+  ].filter(Boolean).join(" · ") || "Siempre";
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-4">
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h2 className="text-lg font-semibold mb-1">{draft.id ? "Editar promoción" : "Nueva promoción"}</h2>
+        <p className="text-sm text-slate-500 mb-3">
+          NxM y packs se aplican sobre unidades (no sobre líneas pesadas); los porcentajes, sobre lo que queda después de las otras promociones.
+        </p>
+        <div className="grid sm:grid-cols-2 gap-3 mb-3">
+          <div>
+            <label className="text-sm">Nombre</label>
+            <input className="w-full border rounded-lg p-2 mt-1" value={draft.name} onChange={(e)=>set({ name: e.target.value })} placeholder="Docena de facturas" />
+          </div>
+          <div>
+            <label className="text-sm">Tipo</label>
+            <select className="w-full border rounded-lg p-2 mt-1" value={draft.kind} onChange={(e)=>set({ kind: e.target.value as PromotionKind })}>
+              <option value="nxm">Lleva N, paga M (2x1, 3x2…)</option>
+              <option value="bundle">Pack a precio fijo</option>
+              <option value="combo">Combo de productos</option>
+              <option value="percent">Porcentaje de descuento</option>
+            </select>
+          </div>
+          {draft.kind === "nxm" && (
+            <>
+              <div>
+                <label className="text-sm">Lleva (N)</label>
+                <input type="number" className="w-full border rounded-lg p-2 mt-1" value={draft.buy ?? ""} onChange={(e)=>set({ buy: numOrUndef(e.target.value) })} />
+              </div>
+              <div>
+                <label className="text-sm">Paga (M)</label>
+                <input type="number" className="w-full border rounded-lg p-2 mt-1" value={draft.pay ?? ""} onChange={(e)=>set({ pay: numOrUndef(e.target.value) })} />
+              </div>
+            </>
+          )}
+          {draft.kind === "bundle" && (
+            <div>
+              <label className="text-sm">Unidades del pack</label>
+              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={draft.bundleQty ?? ""} onChange={(e)=>set({ bundleQty: numOrUndef(e.target.value) })} />
+            </div>
+          )}
+          {(draft.kind === "bundle" || draft.kind === "combo") && (
+            <div>
+              <label className="text-sm">Precio (ARS)</label>
+              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={draft.price ?? ""} onChange={(e)=>set({ price: numOrUndef(e.target.value) })} />
+            </div>
+          )}
+          {draft.kind === "percent" && (
+            <>
+              <div>
+                <label className="text-sm">Descuento (%)</label>
+                <input type="number" className="w-full border rounded-lg p-2 mt-1" value={draft.percent ?? ""} onChange={(e)=>set({ percent: numOrUndef(e.target.value) })} />
+              </div>
+              <div>
+                <label className="text-sm">Cantidad mínima</label>
+                <input type="number" className="w-full border rounded-lg p-2 mt-1" value={draft.minQty ?? ""} onChange={(e)=>set({ minQty: numOrUndef(e.target.value) })} />
+              </div>
+            </>
+          )}
+        </div>
+
+        <h3 className="text-sm font-semibold mb-1">Productos</h3>
+        <p className="text-xs text-slate-500 mb-2">
+          {draft.kind === "combo" ? "Una unidad de cada producto arma un combo." : "Sin productos ni categoría, aplica a todo el carrito."}
+        </p>
+        <div className="flex flex-wrap gap-2 mb-2">
+          {(draft.codes ?? []).map((c) => (
+            <span key={c} className="px-2 py-1 rounded bg-slate-100 text-sm">
+              {productsMap.get(c)?.name ?? c}
+              <button className="ml-2 text-slate-500" onClick={()=>set({ codes: (draft.codes ?? []).filter((x) => x !== c) })}>×</button>
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2 mb-3">
+          <select className="flex-1 border rounded-lg p-2" value={newCode} onChange={(e)=>setNewCode(e.target.value)}>
+            <option value="">Agregar producto…</option>
+            {sellable.filter((p) => !(draft.codes ?? []).includes(p.code)).map((p) => <option key={p.code} value={p.code}>{p.name}</option>)}
+          </select>
+          <button className="border rounded-lg px-4 py-2" onClick={()=>{
+            if (!newCode) return;
+            set({ codes: [...(draft.codes ?? []), newCode] });
+            setNewCode("");
+          }}>Agregar</button>
+        </div>
+        {draft.kind !== "combo" && (
+          <div className="mb-3">
+            <label className="text-sm">Categoría</label>
+            <select className="w-full border rounded-lg p-2 mt-1" value={draft.category ?? ""} onChange={(e)=>set({ category: e.target.value || undefined })}>
+              <option value="">Ninguna</option>
+              {categories.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </div>
+        )}
+
+        <h3 className="text-sm font-semibold mb-2">Vigencia</h3>
+        <div className="grid sm:grid-cols-2 gap-3 mb-3">
+          <div>
+            <label className="text-sm">Desde</label>
+            <input type="date" className="w-full border rounded-lg p-2 mt-1" value={draft.dateFrom ?? ""} onChange={(e)=>set({ dateFrom: e.target.value || undefined })} />
+          </div>
+          <div>
+            <label className="text-sm">Hasta</label>
+            <input type="date" className="w-full border rounded-lg p-2 mt-1" value={draft.dateTo ?? ""} onChange={(e)=>set({ dateTo: e.target.value || undefined })} />
+          </div>
+          <div>
+            <label className="text-sm">Desde la hora</label>
+            <input type="time" className="w-full border rounded-lg p-2 mt-1" value={draft.timeFrom ?? ""} onChange={(e)=>set({ timeFrom: e.target.value || undefined })} />
+          </div>
+          <div>
+            <label className="text-sm">Hasta la hora</label>
+            <input type="time" className="w-full border rounded-lg p-2 mt-1" value={draft.timeTo ?? ""} onChange={(e)=>set({ timeTo: e.target.value || undefined })} />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-3 mb-3">
+          {WEEKDAYS.map((d, i) => (
+            <label key={d} className="flex gap-1 items-center text-sm">
+              <input type="checkbox" checked={(draft.weekdays ?? []).includes(i)} onChange={(e)=>set({
+                weekdays: e.target.checked ? [...(draft.weekdays ?? []), i].sort() : (draft.weekdays ?? []).filter((x) => x !== i),
+              })} />
+              {d}
+            </label>
+          ))}
+        </div>
+        <div className="mb-4">
+          <label className="text-sm">Solo pagando con</label>
+          <select className="w-full border rounded-lg p-2 mt-1" value={draft.paymentMethod ?? ""} onChange={(e)=>set({ paymentMethod: e.target.value || undefined })}>
+            <option value="">Cualquier medio</option>
+            {paymentMethods.filter((m) => m.enabled).map((m) => <option key={m.key} value={m.key}>{m.label}</option>)}
+          </select>
+        </div>
+        <div className="flex justify-end gap-2">
+          {draft.id && <button className="border rounded-lg px-4 py-2" onClick={()=>setDraft(EMPTY_PROMO)}>Cancelar</button>}
+          <button className="bg-black text-white rounded-lg px-4 py-2 disabled:opacity-60" disabled={saving} onClick={save}>{saving ? "Guardando..." : "Guardar"}</button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h2 className="text-lg font-semibold mb-3">Promociones</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">Promoción</th>
+                <th className="py-2">Vigencia</th>
+                <th className="py-2 text-center">Activa</th>
+                <th className="py-2 text-right">Acciones</th>
+              </tr>
+            </thead>
+            <tbody>
+              {promotions.map((p) => (
+                <tr key={p.id} className={`border-b ${p.active ? "" : "text-slate-400"}`}>
+                  <td className="py-2">
+                    <div className="font-medium">{p.name}</div>
+                    <div className="text-xs text-slate-500">
+                      {promoSummary(p)}
+                      {(p.codes ?? []).length > 0 && ` · ${(p.codes ?? []).map((c) => productsMap.get(c)?.name ?? c).join(", ")}`}
+                      {p.category && ` · categoría ${categoryName(categories, p.category)}`}
+                    </div>
+                  </td>
+                  <td className="py-2 text-xs">{windowLabel(p)}</td>
+                  <td className="py-2 text-center">
+                    <input type="checkbox" className="w-5 h-5" checked={p.active} onChange={()=>toggle(p)} />
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button className="border rounded-lg px-3 py-1 mr-2" onClick={()=>setDraft(p)}>Editar</button>
+                    <button className="border rounded-lg px-3 py-1" onClick={()=>remove(p)}>Borrar</button>
+                  </td>
+                </tr>
+              ))}
+              {promotions.length === 0 && (
+                <tr><td colSpan={4} className="text-center text-slate-500 py-6">No hay promociones cargadas</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ====================== Modal PESO/PRECIO (Pan y productos por kilo) ======================
+function WeightModal({
+  open, title, onClose, onAdd, pricePerKg,
+}: { open: boolean; title: string; onClose: () => void; onAdd: (priceFinal: number, kg?: number) => void; pricePerKg: number; }) {
+  const [mode, setMode] = useState<"precio"|"peso">("precio");
+  const [precio, setPrecio] = useState("");
+  const [gramos, setGramos] = useState("");
+
+  useEffect(() => {
+    if (open) { setPrecio(""); setGramos(""); }
+  }, [open]);
+
+  const confirmar = () => {
+    if (mode === "precio") {
+      const p = parseNumberOrZero(precio);
+      if (p > 0) onAdd(p, pricePerKg > 0 ? Math.round((p / pricePerKg) * 1000) / 1000 : undefined);
+    } else {
+      const g = parseNumberOrZero(gramos);
+      if (g > 0) onAdd(Math.round((g / 1000) * pricePerKg), g / 1000);
+    }
+    onClose();
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" || e.key === "Esc") { e.preventDefault(); onClose(); }
+      else if (e.key === "Enter" || e.key === "NumpadEnter") { e.preventDefault(); confirmar(); }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [open, mode, precio, gramos]);
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-2xl p-4 w-[92%] max-w-md shadow-xl" onClick={(e)=>e.stopPropagation()}>
+        <h3 className="text-lg font-semibold mb-3">Agregar {title}</h3>
+        <div className="flex gap-2 mb-3">
+          <button className={`px-3 py-1 rounded ${mode==="precio"?"bg-blue-500 text-white":"bg-gray-200"}`} onClick={()=>setMode("precio")}>Ingresar PRECIO</button>
+          <button className={`px-3 py-1 rounded ${mode==="peso"?"bg-blue-500 text-white":"bg-gray-200"}`} onClick={()=>setMode("peso")}>Ingresar PESO (gramos)</button>
+        </div>
+        {mode === "precio" ? (
+          <input autoFocus inputMode="numeric" pattern="[0-9]*" placeholder="Precio final (ej: 800)"
+            className="w-full border rounded p-2 mb-3" value={precio}
+            onChange={(e)=>setPrecio(e.target.value.replace(/[^\d.,]/g,""))} />
+        ) : (
+          <>
+            <p className="text-sm text-slate-600 mb-1">Precio por kilo: {peso(pricePerKg)}/kg</p>
+            <input autoFocus inputMode="numeric" pattern="[0-9]*" placeholder="Gramos (ej: 250 para 1/4 kg)"
+              className="w-full border rounded p-2 mb-3" value={gramos}
+              onChange={(e)=>setGramos(e.target.value.replace(/[^\d]/g,""))} />
+          </>
+        )}
+        <div className="flex justify-end gap-2">
+          <button className="px-3 py-1 rounded border" onClick={onClose}>Cancelar (Esc)</button>
+          <button className="px-3 py-1 rounded bg-blue-500 text-white" onClick={confirmar}>Agregar (Enter)</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ====================== Modal MEDIO DE PAGO ======================
+function PaymentModal({
+  open,
+  totalFor,
+  methods,
+  customers,
+  onClose,
+  onConfirm,
+}: {
+  open: boolean;
+  // Total según el medio (promociones por medio de pago); null = pago dividido
+  totalFor: (method: PaymentMethod | null) => number;
+  methods: PaymentMethodDef[];
+  customers: Customer[];
+  onClose: () => void;
+  onConfirm: (payments: SalePayment[], cashTendered?: number, customer?: Customer) => void;
+}) {
+  const options = methods.filter((m) => m.enabled);
+  const [index, setIndex] = useState(0);
+  const [lines, setLines] = useState<SalePayment[]>([]);
+  const [amount, setAmount] = useState("");
+  const [tendered, setTendered] = useState("");
+  const [customerId, setCustomerId] = useState("");
+  const amountRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) { setIndex(0); setLines([]); setAmount(""); setTendered(""); setCustomerId(""); }
+  }, [open]);
+
+  const current = options[index] ?? options[0];
+  const total = totalFor(lines.length === 0 && current ? current.key : null);
+  const paid = lines.reduce((acc, p) => acc + p.amount, 0);
+  const remaining = Math.max(0, total - paid);
+
+  // Pago parcial: sin monto se toma el saldo pendiente
+  const addLine = () => {
+    if (!current) return;
+    // al dividir el pago no aplican las promociones por medio de pago
+    const rest = Math.max(0, totalFor(null) - paid);
+    const a = amount.trim() === "" ? rest : parseNumberOrZero(amount);
+    if (a <= 0) return;
+    if (a > rest) { toast.error("El monto supera el saldo pendiente"); return; }
+    setLines((prev) => {
+      const idx = prev.findIndex((p) => p.method === current.key);
+      if (idx < 0) return [...prev, { method: current.key, label: current.label, amount: a }];
+      const next = [...prev];
+      next[idx] = { ...next[idx], amount: next[idx].amount + a };
+      return next;
+    });
+    setAmount("");
+  };
+
+  // Lo que falte se cobra con el medio seleccionado
+  const finalPayments = (): SalePayment[] => {
+    // Un solo medio: el total es el de ese medio (con sus promociones)
+    if (lines.length === 1 && (remaining <= 0 || lines[0].method === current?.key)) {
+      return [{ ...lines[0], amount: totalFor(lines[0].method) }];
+    }
+    if (!current) return lines;
+    if (remaining <= 0) return lines;
+    const idx = lines.findIndex((p) => p.method === current.key);
+    if (idx < 0) return [...lines, { method: current.key, label: current.label, amount: remaining }];
+    return lines.map((p, i) => (i === idx ? { ...p, amount: p.amount + remaining } : p));
+  };
+  const cashDue = cashOf(finalPayments());
+  const accountDue = accountOf(finalPayments());
+  const tenderedNum = tendered.trim() === "" ? null : parseNumberOrZero(tendered);
+  const customer = customers.find((c) => c.id === customerId);
+
+  const confirm = () => {
+    const payments = finalPayments();
+    if (payments.length === 0) return;
+    if (tenderedNum != null && tenderedNum < cashDue) { toast.error("El efectivo entregado no alcanza"); return; }
+    if (accountDue > 0) {
+      if (!customer) { toast.error("Elegí el cliente de la cuenta corriente"); return; }
+      if (customer.creditLimit != null && customer.balance + accountDue > customer.creditLimit) {
+        toast.error(`Supera el límite de ${customer.name} (disponible ${peso(Math.max(0, customer.creditLimit - customer.balance))})`);
+        return;
+      }
+    }
+    onConfirm(payments, cashDue > 0 && tenderedNum != null ? tenderedNum : undefined, accountDue > 0 ? customer : undefined);
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape" || e.key === "Esc") { e.preventDefault(); onClose(); return; }
+      if (e.key === "Enter" || e.key === "NumpadEnter") {
+        e.preventDefault();
+        if (document.activeElement === amountRef.current && amount.trim() !== "") addLine();
+        else confirm();
+        return;
+      }
+      if (isTypingInInput()) return;
+      if (["ArrowLeft","ArrowUp"].includes(e.key)) { e.preventDefault(); setIndex((i)=> (i+options.length-1)%options.length); }
+      if (["ArrowRight","ArrowDown"].includes(e.key)) { e.preventDefault(); setIndex((i)=> (i+1)%options.length); }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [open, index, lines, amount, tendered, customerId, options.length, total]);
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-2xl p-4 w-[92%] max-w-lg shadow-xl" onClick={(e)=>e.stopPropagation()}>
+        <h3 className="text-lg font-semibold mb-1">Seleccioná el medio de pago</h3>
+        <p className="text-sm text-slate-600 mb-3">
+          Total <strong>{peso(total)}</strong>
+          {lines.length > 0 && <> · Pagado {peso(paid)} · Saldo <strong>{peso(remaining)}</strong></>}
+        </p>
+        <div className="grid grid-cols-3 gap-3 mb-3">
+          {options.map((opt, i) => (
+            <button
+              key={opt.key}
+              className={`border rounded-xl p-3 text-left ${i===index ? "border-black ring-2 ring-black" : "hover:border-slate-400"}`}
+              onClick={()=>setIndex(i)}
+              onDoubleClick={()=>{ setIndex(i); if (lines.length === 0 && opt.key !== ACCOUNT_METHOD) onConfirm([{ method: opt.key, label: opt.label, amount: totalFor(opt.key) }]); }}
+            >
+              <div className="text-sm font-semibold">{opt.label}</div>
+              <div className="text-xs text-slate-500">{opt.hint}</div>
+            </button>
+          ))}
+        </div>
+
+        {lines.length > 0 && (
+          <ul className="text-sm mb-3 border rounded-lg divide-y">
+            {lines.map((p) => (
+              <li key={p.method} className="flex justify-between items-center px-3 py-1">
+                <span>{p.label}</span>
+                <span className="flex items-center gap-2">
+                  {peso(p.amount)}
+                  <button className="text-xs border rounded px-2" onClick={()=>setLines((prev)=>prev.filter((x)=>x.method!==p.method))}>Quitar</button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2 mb-3">
+          <input ref={amountRef} type="number" className="flex-1 border rounded-lg p-2" placeholder={`Monto parcial (saldo ${peso(remaining)})`}
+            value={amount} onChange={(e)=>setAmount(e.target.value)} />
+          <button className="border rounded-lg px-3 py-2" onClick={addLine}>Dividir pago</button>
+        </div>
+
+        {accountDue > 0 && (
+          <div className="mb-3">
+            <label className="text-sm">Cliente ({peso(accountDue)} a cuenta)</label>
+            <select className="w-full border rounded-lg p-2 mt-1" value={customerId} onChange={(e)=>setCustomerId(e.target.value)}>
+              <option value="">Elegí…</option>
+              {customers.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name} · debe {peso(c.balance)}{c.creditLimit != null ? ` / límite ${peso(c.creditLimit)}` : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {(cashDue > 0 || current?.key === CASH_METHOD) && (
+          <div className="flex gap-2 items-center mb-3">
+            <label className="text-sm whitespace-nowrap">Paga con</label>
+            <input type="number" className="flex-1 border rounded-lg p-2" placeholder={peso(cashDue)} value={tendered} onChange={(e)=>setTendered(e.target.value)} />
+            <span className="text-sm whitespace-nowrap">
+              Vuelto: <strong className={tenderedNum != null && tenderedNum < cashDue ? "text-red-600" : ""}>{tenderedNum != null ? peso(tenderedNum - cashDue) : "-"}</strong>
+            </span>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button className="px-3 py-1 rounded border" onClick={onClose}>Cancelar (Esc)</button>
+          <button className="px-3 py-1 rounded bg-black text-white" onClick={confirm}>Confirmar (Enter)</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ====================== TICKET (HTML + ESC/POS) ======================
+type ReceiptLine = { text: string; center?: boolean; bold?: boolean; big?: boolean };
+
+function receiptColumns(paperWidth: 58 | 80) {
+  return paperWidth === 58 ? 32 : 48;
+}
+function twoCols(left: string, right: string, width: number) {
+  const room = Math.max(1, width - right.length - 1);
+  const l = left.length > room ? left.slice(0, room) : left;
+  return l + " ".repeat(width - l.length - right.length) + right;
+}
+function buildReceiptLines(sale: Sale, cfg: ReceiptConfig): ReceiptLine[] {
+  const w = receiptColumns(cfg.paperWidth);
+  const sep = { text: "-".repeat(w) };
+  const lines: ReceiptLine[] = [];
+  // el texto grande ocupa doble ancho
+  lines.push({ text: cfg.storeName.slice(0, Math.floor(w / 2)), center: true, bold: true, big: true });
+  cfg.headerLines.split("\n").map((l) => l.trim()).filter(Boolean).forEach((l) => lines.push({ text: l.slice(0, w), center: true }));
+  lines.push(sep);
+  lines.push({ text: `Fecha: ${fmtDateTime(sale.at, AR_TZ)}` });
+  lines.push({ text: `Venta: ${sale.id}`.slice(0, w) });
+  lines.push(sep);
+  for (const it of sale.items) {
+    lines.push({ text: it.name.slice(0, w) });
+    const detail = it.weight != null
+      ? `  ${fmtKg(it.weight * it.qty)} kg`
+      : `  ${it.qty} x ${peso(it.price)}`;
+    lines.push({ text: twoCols(detail, peso(it.price * it.qty), w) });
+  }
+  lines.push(sep);
+  if (sale.discounts?.length) {
+    lines.push({ text: twoCols("Subtotal", peso(sale.subtotal ?? sale.total), w) });
+    for (const d of sale.discounts) lines.push({ text: twoCols(d.name.slice(0, w - 12), `-${peso(d.amount)}`, w) });
+  }
+  lines.push({ text: twoCols("TOTAL", peso(sale.total), w), bold: true });
+  for (const p of salePayments(sale)) lines.push({ text: twoCols(`Pago ${p.label}`, peso(p.amount), w) });
+  if (sale.cashTendered != null) {
+    lines.push({ text: twoCols("Paga con", peso(sale.cashTendered), w) });
+    lines.push({ text: twoCols("Vuelto", peso(sale.change ?? 0), w) });
+  }
+  if (sale.customerName) lines.push({ text: `Cliente: ${sale.customerName}`.slice(0, w) });
+  if (cfg.footer.trim()) {
+    lines.push(sep);
+    cfg.footer.split("\n").map((l) => l.trim()).filter(Boolean).forEach((l) => lines.push({ text: l.slice(0, w), center: true }));
+  }
+  return lines;
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+function receiptHTML(sale: Sale, cfg: ReceiptConfig) {
+  const body = buildReceiptLines(sale, cfg).map((l) => {
+    const cls = [l.center ? "c" : "", l.bold ? "b" : "", l.big ? "g" : ""].filter(Boolean).join(" ");
+    return `<pre class="${cls}">${escapeHtml(l.text) || "&nbsp;"}</pre>`;
+  }).join("");
+  return `<!doctype html><html><head><meta charset="utf-8"><title>Ticket ${sale.id}</title><style>
+@page { size: ${cfg.paperWidth}mm auto; margin: 0; }
+body { width: ${cfg.paperWidth - 4}mm; margin: 2mm; font-family: "Courier New", monospace; font-size: 10px; }
+pre { margin: 0; white-space: pre; font-family: inherit; }
+.c { text-align: center; } .b { font-weight: bold; } .g { font-size: 16px; }
+</style></head><body>${body}</body></html>`;
+}
+
+// Las impresoras térmicas usan code pages de un byte: se quitan acentos y símbolos fuera de ASCII
+function toEscPosText(s: string) {
+  return s
+    .replace(/\u00a0/g, " ")
+    .replace(/¡/g, "!").replace(/¿/g, "?")
+    .normalize("NFD").replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, "?");
+}
+function buildEscPos(sale: Sale, cfg: ReceiptConfig) {
+  const ESC = 0x1b, GS = 0x1d, LF = 0x0a;
+  const out: number[] = [ESC, 0x40]; // init
+  for (const l of buildReceiptLines(sale, cfg)) {
+    out.push(ESC, 0x61, l.center ? 1 : 0);
+    out.push(ESC, 0x45, l.bold ? 1 : 0);
+    out.push(GS, 0x21, l.big ? 0x11 : 0x00);
+    for (const ch of toEscPosText(l.text)) out.push(ch.charCodeAt(0));
+    out.push(LF);
+  }
+  out.push(GS, 0x21, 0x00, ESC, 0x61, 0, ESC, 0x45, 0);
+  out.push(ESC, 0x64, 4); // avanzar 4 líneas
+  out.push(GS, 0x56, 0x42, 0x00); // corte parcial
+  return new Uint8Array(out);
+}
+
+function printHTML(html: string) {
+  const iframe = document.createElement("iframe");
+  iframe.style.position = "fixed";
+  iframe.style.width = "0";
+  iframe.style.height = "0";
+  iframe.style.border = "0";
+  document.body.appendChild(iframe);
+  const win = iframe.contentWindow;
+  if (!win) { iframe.remove(); return; }
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+  setTimeout(() => iframe.remove(), 1000);
+}
+
+// Lo mínimo de Web Serial que se usa (todavía no está en lib.dom)
+type SerialPortLike = {
+  writable: WritableStream<Uint8Array> | null;
+  open: (options: { baudRate: number }) => Promise<void>;
+};
+type SerialLike = {
+  getPorts: () => Promise<SerialPortLike[]>;
+  requestPort: () => Promise<SerialPortLike>;
+};
+
+// Envía los bytes por Web Serial (impresora USB/serie ya autorizada); si no hay soporte, descarga el .bin
+async function sendEscPos(bytes: Uint8Array, fileName: string) {
+  const serial = (navigator as Navigator & { serial?: SerialLike }).serial;
+  if (serial) {
+    try {
+      const ports = await serial.getPorts();
+      const port = ports[0] ?? await serial.requestPort();
+      if (!port.writable) await port.open({ baudRate: 9600 });
+      const writer = port.writable!.getWriter();
+      await writer.write(bytes);
+      writer.releaseLock();
+      return;
+    } catch (err: any) {
+      toast.error(`No se pudo imprimir por puerto serie: ${err?.message || err}`);
+    }
+  }
+  const blob = new Blob([bytes], { type: "application/octet-stream" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = fileName; a.click();
+  URL.revokeObjectURL(url);
+}
+
+async function printReceipt(sale: Sale, cfg: ReceiptConfig) {
+  if (cfg.output === "escpos") await sendEscPos(buildEscPos(sale, cfg), `ticket_${sale.id}.bin`);
+  else printHTML(receiptHTML(sale, cfg));
+}
+
+// ====================== Banner de Atajos + Modal Ayuda ======================
+function ShortcutsBanner({ visible, onOpenHelp }: { visible: boolean; onOpenHelp: () => void }) {
+  if (!visible) return null;
+  return (
+    <div role="region" aria-label="Atajos de teclado" className="w-full bg-sky-50 border-b border-sky-200">
+      <div className="max-w-7xl mx-auto px-4 py-2 flex items-center justify-between">
+        <div className="text-[13px] md:text-sm font-bold text-sky-900">
+          | 0 = PAN | 1–9 = TECLAS | * = PÁGINA | INTRO = COBRAR | o = CÓDIGO | + = +1 ÚLT. | / = CANCELAR |
+        </div>
+        <button
+          aria-label="Ayuda de atajos"
+          className="ml-3 px-2 py-1 rounded border border-sky-300 text-sky-900 text-sm font-semibold bg-white hover:bg-sky-100"
+          onClick={onOpenHelp}
+        >
+          ?
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ShortcutsHelpModal({ open, onClose }: { open: boolean; onClose: () => void }) {
+  if (!open) return null;
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-2xl p-5 w-[92%] max-w-lg shadow-xl" onClick={(e)=>e.stopPropagation()}>
+        <h3 className="text-lg font-semibold mb-3">Atajos de teclado (Numpad)</h3>
+        <ul className="list-disc pl-5 space-y-1 text-sm">
+          <li><strong>Num0</strong>: abrir <strong>Pan</strong></li>
+          <li><strong>Num1–Num9</strong>: <strong>tecla rápida</strong> 1 a 9 de la página actual</li>
+          <li><strong>Num *</strong>: siguiente <strong>página</strong> de teclas rápidas</li>
+          <li><strong>NumEnter</strong>: <strong>Cobrar</strong></li>
+          <li><strong>Num .</strong>: enfocar <strong>código/buscador</strong></li>
+          <li><strong>Num +</strong>: sumar <strong>+1</strong> a la última línea agregada</li>
+          <li><strong>Num /</strong>: <strong>Cancelar</strong> (vaciar carrito)</li>
+        </ul>
+        <div className="flex justify-end gap-2 mt-4">
+          <button className="px-3 py-1 rounded border" onClick={onClose}>Cerrar (Esc)</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ====================== TECLAS RÁPIDAS (POS) ======================
+const DEFAULT_KEY_COLOR = "#e2e8f0";
+
+function quickKeyColor(k: QuickKey, p: Product | undefined, categories: Category[]) {
+  return k.color || categories.find((c) => c.id === p?.category)?.color || DEFAULT_KEY_COLOR;
+}
+
+// Texto oscuro o claro según el fondo
+function contrastText(hex: string) {
+  const m = /^#?([0-9a-f]{6})$/i.exec(hex);
+  if (!m) return "#0f172a";
+  const n = parseInt(m[1], 16);
+  const lum = (0.299 * ((n >> 16) & 255) + 0.587 * ((n >> 8) & 255) + 0.114 * (n & 255)) / 255;
+  return lum > 0.6 ? "#0f172a" : "#ffffff";
+}
+
+function QuickKeysGrid({
+  pages, page, onPage, productsMap, categories, onPress,
+}: {
+  pages: QuickKeyPage[];
+  page: number;
+  onPage: (i: number) => void;
+  productsMap: Map<string, Product>;
+  categories: Category[];
+  onPress: (code: string) => void;
+}) {
+  const current = pages[page];
+  if (!current) return null;
+  return (
+    <div className="mb-4">
+      {pages.length > 1 && (
+        <div className="flex gap-2 mb-2 overflow-x-auto">
+          {pages.map((pg, i) => (
+            <button key={pg.id} className={`px-4 py-2 rounded-lg border whitespace-nowrap ${i === page ? "bg-black text-white" : ""}`} onClick={()=>onPage(i)}>
+              {pg.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+        {current.keys.map((k, i) => {
+          const p = productsMap.get(k.code);
+          const bg = quickKeyColor(k, p, categories);
+          const noStock = !p || (p.stock || 0) <= 0;
+          return (
+            <button
+              key={`${k.code}-${i}`}
+              className={`relative rounded-xl p-3 min-h-[72px] text-left shadow-sm active:scale-95 transition ${noStock ? "opacity-40" : ""}`}
+              style={{ background: bg, color: contrastText(bg) }}
+              onClick={()=>onPress(k.code)}
+            >
+              {i < 9 && <span className="absolute top-1 right-2 text-[10px] opacity-70">{i + 1}</span>}
+              <div className="text-sm font-semibold leading-tight">{k.label || p?.name || k.code}</div>
+              {p && <div className="text-xs opacity-80">{peso(calcPrice(p.cost, p.margin))}{p.soldByWeight ? "/kg" : ""}</div>}
+            </button>
+          );
+        })}
+        {current.keys.length === 0 && <div className="col-span-full text-sm text-slate-500">Página sin teclas: configuralas en Ajustes.</div>}
+      </div>
+    </div>
+  );
+}
+
+function QuickKeysEditor({
+  products, categories, can,
+}: { products: Product[]; categories: Category[]; can: Can }) {
+  const [pages, setPages] = useState<QuickKeyPage[]>([]);
+  const [sel, setSel] = useState(0);
+  const [newCode, setNewCode] = useState("");
+  const [saving, setSaving] = useState(false);
+  const sellable = useMemo(() => products.filter((p) => p.kind !== "ingredient"), [products]);
+  const productsMap = useMemo(() => new Map(products.map(p => [p.code, p])), [products]);
+  const editable = can("settings.edit");
+
+  useEffect(() => {
+    getDoc(doc(db, "settings", "config")).then((d) => setPages(d.data()?.quickKeys ?? []));
+  }, []);
+
+  const page = pages[sel];
+  const setKeys = (keys: QuickKey[]) => setPages((prev) => prev.map((p, i) => (i === sel ? { ...p, keys } : p)));
+
+  const addPage = (name = `Página ${pages.length + 1}`, keys: QuickKey[] = []) => {
+    setPages((prev) => [...prev, { id: crypto.randomUUID(), name, keys }]);
+    setSel(pages.length);
+  };
+  const removePage = () => {
+    if (!page || !confirm(`¿Borrar la página "${page.name}"?`)) return;
+    setPages((prev) => prev.filter((_, i) => i !== sel));
+    setSel(0);
+  };
+  const move = (i: number, d: number) => {
+    if (!page) return;
+    const j = i + d;
+    if (j < 0 || j >= page.keys.length) return;
+    const keys = [...page.keys];
+    [keys[i], keys[j]] = [keys[j], keys[i]];
+    setKeys(keys);
+  };
+  // Una página con todos los productos vendibles de la categoría
+  const addCategoryPage = (id: string) => {
+    const c = categories.find((x) => x.id === id);
+    if (!c) return;
+    addPage(c.name, sellable.filter((p) => p.category === id).map((p) => ({ code: p.code })));
+  };
+
+  const save = async () => {
+    if (!editable) { toast.error("No tenés permiso para cambiar la configuración"); return; }
+    setSaving(true);
+    try {
+      const clean = pages.map((p) => ({
+        id: p.id,
+        name: p.name.trim() || "Página",
+        keys: p.keys.map((k) => ({ code: k.code, ...(k.label?.trim() ? { label: k.label.trim() } : {}), ...(k.color ? { color: k.color } : {}) })),
+      }));
+      await setDoc(doc(db, "settings", "config"), { quickKeys: clean }, { merge: true });
+      toast.success("Teclas rápidas guardadas");
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudieron guardar las teclas");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-semibold">Teclas rápidas del POS</h3>
+        <button onClick={save} disabled={saving || !editable} className="bg-black text-white rounded-lg px-4 py-2 disabled:opacity-60">{saving ? "Guardando..." : "Guardar teclas"}</button>
+      </div>
+      <p className="text-sm text-slate-500 mb-3">
+        Botones para productos sin código de barras. Las 9 primeras de cada página responden a Num1–Num9 y Num* cambia de página.
+      </p>
+      <div className="flex flex-wrap gap-2 mb-3 items-center">
+        {pages.map((p, i) => (
+          <button key={p.id} className={`px-3 py-1 rounded border ${i === sel ? "bg-black text-white" : ""}`} onClick={()=>setSel(i)}>{p.name}</button>
+        ))}
+        <button className="px-3 py-1 rounded border" disabled={!editable} onClick={()=>addPage()}>+ Página</button>
+        <select className="border rounded-lg p-1" value="" disabled={!editable || categories.length === 0} onChange={(e)=>addCategoryPage(e.target.value)}>
+          <option value="">+ Página desde categoría…</option>
+          {categories.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+      </div>
+      {page && (
+        <>
+          <div className="flex gap-2 mb-3">
+            <input className="border rounded-lg p-2" value={page.name} disabled={!editable}
+              onChange={(e)=>setPages((prev) => prev.map((p, i) => (i === sel ? { ...p, name: e.target.value } : p)))} />
+            <button className="border rounded-lg px-3 py-1" disabled={!editable} onClick={removePage}>Borrar página</button>
+          </div>
+          <table className="w-full text-sm mb-3">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">#</th>
+                <th className="py-2">Producto</th>
+                <th className="py-2">Texto del botón</th>
+                <th className="py-2">Color</th>
+                <th className="py-2 text-right"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {page.keys.map((k, i) => {
+                const p = productsMap.get(k.code);
+                return (
+                  <tr key={`${k.code}-${i}`} className="border-b">
+                    <td className="py-1">{i + 1}</td>
+                    <td className="py-1">{p?.name ?? <span className="text-red-600">{k.code} (no existe)</span>}</td>
+                    <td className="py-1">
+                      <input className="border rounded-lg p-1 w-40" placeholder={p?.name} value={k.label ?? ""} disabled={!editable}
+                        onChange={(e)=>setKeys(page.keys.map((x, j) => (j === i ? { ...x, label: e.target.value } : x)))} />
+                    </td>
+                    <td className="py-1">
+                      <input type="color" className="w-8 h-8" value={quickKeyColor(k, p, categories)} disabled={!editable}
+                        onChange={(e)=>setKeys(page.keys.map((x, j) => (j === i ? { ...x, color: e.target.value } : x)))} />
+                    </td>
+                    <td className="py-1 text-right whitespace-nowrap">
+                      <button className="border rounded px-2 mr-1" disabled={!editable} onClick={()=>move(i, -1)}>↑</button>
+                      <button className="border rounded px-2 mr-1" disabled={!editable} onClick={()=>move(i, 1)}>↓</button>
+                      <button className="border rounded px-2" disabled={!editable} onClick={()=>setKeys(page.keys.filter((_, j) => j !== i))}>Quitar</button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {page.keys.length === 0 && (
+                <tr><td colSpan={5} className="text-center text-slate-500 py-4">Sin teclas</td></tr>
+              )}
+            </tbody>
+          </table>
+          <div className="flex gap-2 max-w-md">
+            <select className="flex-1 border rounded-lg p-2" value={newCode} disabled={!editable} onChange={(e)=>setNewCode(e.target.value)}>
+              <option value="">Agregar producto…</option>
+              {sellable.map((p) => <option key={p.code} value={p.code}>{p.name}</option>)}
+            </select>
+            <button className="border rounded-lg px-4 py-2" disabled={!editable} onClick={()=>{
+              if (!newCode) return;
+              setKeys([...page.keys, { code: newCode }]);
+              setNewCode("");
+            }}>Agregar</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ====================== POS ======================
+function POSTab({
+  products, onQueueSale, pricePerKg, cashSession, scaleConfig, receiptConfig, paymentMethods, promotions,
+  quickKeys, categories, customers,
+}: {
+  products: Product[];
+  onQueueSale: (p: PendingSale) => Promise<void>;
+  pricePerKg: number;
+  cashSession: CashSession | null;
+  scaleConfig: ScaleBarcodeConfig;
+  receiptConfig: ReceiptConfig;
+  paymentMethods: PaymentMethodDef[];
+  promotions: Promotion[];
+  quickKeys: QuickKeyPage[];
+  categories: Category[];
+  customers: Customer[];
+}) {
+  const [scan, setScan] = useState("");
+  const [cart, setCart] = useState<SaleItem[]>([]);
+  const [undoStack, setUndoStack] = useState<any[]>([]);
+  // "PAN" = pseudo-ítem con precio/kg de Ajustes; Product = producto que se vende por kilo
+  const [weighTarget, setWeighTarget] = useState<Product | "PAN" | null>(null);
+  const showPan = weighTarget != null;
+  const [showPayment, setShowPayment] = useState(false);
+  const [qkPage, setQkPage] = useState(0);
+  // Si se borran páginas, la actual puede quedar fuera de rango: grilla y numpad usan la misma
+  const currentQkPage = Math.min(qkPage, Math.max(0, quickKeys.length - 1));
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => { inputRef.current?.focus(); }, []);
+
+  const productsMap = useMemo(() => new Map(products.map(p => [p.code, p])), [products]);
+  const pluMap = useMemo(() => {
+    const m = new Map<string, Product>();
+    // el PLU explícito tiene prioridad sobre el código
+    products.forEach((p) => m.set(normalizePlu(p.code), p));
+    products.forEach((p) => { if (p.plu) m.set(normalizePlu(p.plu), p); });
+    return m;
+  }, [products]);
+
+  const usedStock = (code: string) => roundKg(cart.filter(i => i.code === code).reduce((acc, i) => acc + stockQtyOf(i), 0));
+
+  // Etiqueta de balanza: una línea por etiqueta, con el importe o peso impreso
+  const addScaleLabel = (code: string) => {
+    let parsed: { plu: string; value: number } | null = null;
+    try {
+      parsed = parseScaleBarcode(code, scaleConfig);
+    } catch (err: any) {
+      toast.error(err?.message || "Etiqueta inválida");
+      return true;
+    }
+    if (!parsed) return false;
+    const prod = pluMap.get(normalizePlu(parsed.plu));
+    if (!prod) { toast.error(`PLU ${parsed.plu} no asociado a ningún producto`); return true; }
+    const pricePerKgProd = calcPrice(prod.cost, prod.margin);
+    let weight: number;
+    let price: number;
+    if (scaleConfig.mode === "weight") {
+      weight = parsed.value;
+      price = Math.round(weight * pricePerKgProd);
+    } else {
+      if (pricePerKgProd <= 0) { toast.error(`${prod.name} no tiene precio por kilo`); return true; }
+      price = Math.round(parsed.value);
+      weight = Math.round((price / pricePerKgProd) * 1000) / 1000;
+    }
+    if (weight <= 0 || price <= 0) { toast.error("Etiqueta sin peso ni importe"); return true; }
+    if (roundKg(usedStock(prod.code) + weight) > (prod.stock || 0)) { toast.error(`Stock insuficiente de ${prod.name}`); return true; }
+    setCart((prev) => [{ code: prod.code, name: prod.name, price, qty: 1, weight }, ...prev]);
+    setUndoStack((s) => [{ type: "add", code: prod.code, qty: 1 }, ...s]);
+    return true;
+  };
+
+  const addByCode = (code: string, qty = 1) => {
+    const prod = productsMap.get(String(code).trim());
+    if (!prod) {
+      if (addScaleLabel(String(code).trim())) return;
+      toast.error("Código no encontrado");
+      return;
+    }
+    if (prod.kind === "ingredient") { toast.error(`${prod.name} es un insumo, no se vende`); return; }
+    if (prod.soldByWeight) { setWeighTarget(prod); return; }
+    if (roundKg(usedStock(prod.code) + qty) > (prod.stock || 0)) { toast.error(`Stock insuficiente de ${prod.name}`); return; }
+    const price = calcPrice(prod.cost, prod.margin);
+    setCart((prev) => {
+      const idx = prev.findIndex((i) => i.code === prod.code && i.weight == null);
+      if (idx >= 0) {
+        const next = [...prev];
+        next[idx] = { ...next[idx], qty: next[idx].qty + qty };
+        return next;
+      }
+      return [{ code: prod.code, name: prod.name, price, qty }, ...prev];
+    });
+    setUndoStack((s) => [{ type: "add", code, qty }, ...s]);
+  };
+
+  const addWeighed = (prod: Product, price: number, kg?: number) => {
+    if (!kg || kg <= 0) { toast.error(`${prod.name} no tiene precio por kilo`); return; }
+    if (roundKg(usedStock(prod.code) + kg) > (prod.stock || 0)) { toast.error(`Stock insuficiente de ${prod.name}`); return; }
+    setCart((prev) => [{ code: prod.code, name: prod.name, price, qty: 1, weight: kg }, ...prev]);
+    setUndoStack((s) => [{ type: "add", code: prod.code, qty: 1 }, ...s]);
+  };
+
+  // Promociones sin condición de pago; las que dependen del medio se suman al elegirlo
+  const priceCart = (method: PaymentMethod | null) => applyPromotions(cart, promotions, productsMap, method);
+  const pricing = useMemo(() => priceCart(null), [cart, promotions, productsMap]);
+  const total = pricing.total;
+
+  // Autocompletado por nombre: solo si hay letras (los códigos y etiquetas de balanza son numéricos)
+  const [sugIdx, setSugIdx] = useState(0);
+  const suggestions = useMemo(() => (/\D/.test(scan.trim()) ? searchProducts(products, scan) : []), [scan, products]);
+  useEffect(() => { setSugIdx(0); }, [scan]);
+
+  const onScanEnter = (e: any) => {
+    e.preventDefault();
+    const code = scan.trim();
+    if (!code) return;
+    const pick = !productsMap.has(code) ? suggestions[sugIdx] : undefined;
+    addByCode(pick ? pick.code : code, 1);
+    setScan("");
+  };
+
+  const onScanKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") { onScanEnter(e); return; }
+    if (suggestions.length === 0) return;
+    if (e.key === "ArrowDown") { e.preventDefault(); setSugIdx((i) => (i + 1) % suggestions.length); }
+    if (e.key === "ArrowUp") { e.preventDefault(); setSugIdx((i) => (i + suggestions.length - 1) % suggestions.length); }
+    if (e.key === "Escape") { e.preventDefault(); setScan(""); }
+  };
+
+  const changeQty = (code: string, qty: number) => {
+    const prod = productsMap.get(code);
+    if (!prod) return;
+    const q = Math.max(1, Number(qty||1));
+    if (q > (prod.stock || 0)) { toast.error(`Stock insuficiente de ${prod.name}`); return; }
+    setCart((prev) => prev.map((i) => (i.code === code ? { ...i, qty: q } : i)));
+  };
+
+  const removeItem = (idx: number) => {
+    setCart((prev) => prev.filter((_, j) => j !== idx));
+  };
+
+  const cancelAll = () => {
+    setCart([]);
+    setUndoStack([]);
+  };
+
+  const undo = () => {
+    const last = undoStack[0];
+    if (!last) return;
+    setUndoStack((s) => s.slice(1));
+    if (last.type === "add") {
+      setCart((prev) => {
+        const idx = prev.findIndex((i) => i.code === last.code);
+        if (idx < 0) return prev;
+        const item = prev[idx];
+        const newQty = item.qty - last.qty;
+        if (newQty <= 0) return prev.filter((i) => i.code !== last.code);
+        const next = [...prev];
+        next[idx] = { ...item, qty: newQty };
+        return next;
+      });
+    }
+  };
+
+  // +1 al último item del carrito (índice 0), respetando stock si no es PAN
+  const incLastItem = () => {
+    setCart((prev) => {
+      if (prev.length === 0) return prev;
+      const last = prev[0];
+      if (last.weight != null) {
+        toast.error("Las líneas de balanza no se multiplican: escaneá otra etiqueta");
+        return prev;
+      }
+      if (last.code !== "PAN") {
+        const prod = productsMap.get(last.code);
+        const max = prod?.stock ?? 0;
+        const used = prev.filter(i => i.code === last.code).reduce((acc, i) => acc + stockQtyOf(i), 0);
+        if (used + 1 > max) {
+          toast.error(`Stock insuficiente de ${last.name}`);
+          return prev;
+        }
+      }
+      const next = [...prev];
+      next[0] = { ...last, qty: last.qty + 1 };
+      return next;
+    });
+  };
+
+  // --- Cobro final (con medio de pago) ---
+  const finalizarCobro = async (payments: SalePayment[], cashTendered?: number, customer?: Customer) => {
+    if (cart.length === 0) { toast.error("No hay productos"); return; }
+    if (!cashSession) { toast.error("Abrí la caja antes de cobrar"); return; }
+    const sessionRef = doc(db, "cashSessions", cashSession.id);
+    // El mismo id se reutiliza si la venta termina en la cola offline: nunca se graba dos veces
+    const saleRef = doc(collection(db, "sales"));
+    const priced = priceCart(payments.length === 1 ? payments[0].method : null);
+    const total = priced.total;
+    if (Math.abs(payments.reduce((acc, p) => acc + p.amount, 0) - total) > 0.005) { toast.error("Los pagos no suman el total"); return; }
+    const onAccount = accountOf(payments);
+    if (onAccount > 0 && !customer) { toast.error("Elegí el cliente de la cuenta corriente"); return; }
+    if (!navigator.onLine) { await queueOffline(saleRef.id, priced, payments, cashTendered, customer); return; }
+    try {
+      await runTransaction(db, async (tx) => {
+        const sessionSnap = await tx.get(sessionRef);
+        if (!sessionSnap.exists() || sessionSnap.data()?.status !== "open") throw new Error("La caja está cerrada");
+
+        // Un mismo producto puede aparecer en varias líneas (etiquetas de balanza): se agrupa por código
+        const qtyByCode = new Map<string, number>();
+        cart.forEach((it) => {
+          if (it.code !== "PAN") qtyByCode.set(it.code, roundKg((qtyByCode.get(it.code) || 0) + stockQtyOf(it)));
+        });
+        const codes = Array.from(qtyByCode.keys());
+        const refs = codes.map((c) => doc(db, "products", c));
+        const snaps = await Promise.all(refs.map((r) => tx.get(r)));
+        const byCode = new Map<string, Product>();
+        snaps.forEach((snap, i) => {
+          if (!snap.exists()) throw new Error(`Producto no encontrado: ${codes[i]}`);
+          const p = snap.data() as Product;
+          if ((p.stock || 0) < (qtyByCode.get(codes[i]) || 0)) throw new Error(`Stock insuficiente de ${p.name}`);
+          byCode.set(codes[i], p);
+        });
+
+        const customerRef = onAccount > 0 && customer ? doc(db, "customers", customer.id) : null;
+        const customerSnap = customerRef ? await tx.get(customerRef) : null;
+        let customerBalance = 0;
+        if (customerSnap) {
+          if (!customerSnap.exists()) throw new Error("Cliente no encontrado");
+          const c: any = customerSnap.data();
+          customerBalance = Number(c.balance || 0) + onAccount;
+          if (c.creditLimit != null && customerBalance > Number(c.creditLimit)) throw new Error(`Supera el límite de crédito de ${c.name}`);
+        }
+
+        const itemsForSale: SaleItem[] = priced.items.map((item) => ({
+          ...item,
+          costAtSale: item.code === "PAN" ? 0 : lineCostAtSale(item, Number(byCode.get(item.code)!.cost || 0)),
+        }));
+
+        codes.forEach((code, i) => {
+          const p = byCode.get(code)!;
+          const qty = qtyByCode.get(code) || 0;
+          const stockAfter = roundKg((p.stock || 0) - qty);
+          tx.update(refs[i], { stock: stockAfter, ...(p.lots?.length ? { lots: consumeLots(p.lots, qty) } : {}) });
+          addStockMovement(tx, { code, name: p.name, type: "sale", delta: -qty, stockAfter, ref: saleRef.id });
+        });
+
+        const userEmail = auth.currentUser?.email ?? "desconocido";
+
+        tx.set(saleRef, {
+          at: serverTimestamp(),
+          localDate: todayLocalDateAR(),
+          user: userEmail,
+          ...paymentFields(payments, cashTendered, customer),
+          sessionId: cashSession.id,
+          items: itemsForSale.map(i => ({
+            code: i.code, name: i.name, qty: i.qty, price: i.price, costAtSale: i.costAtSale ?? 0,
+            ...(i.weight != null ? { weight: i.weight } : {}),
+            ...(i.discount ? { discount: i.discount } : {}),
+          })),
+          total,
+          ...(priced.discounts.length ? { subtotal: priced.subtotal, discounts: priced.discounts } : {}),
+        });
+
+        tx.update(sessionRef, cashSessionSaleUpdate(payments, total));
+        addToDailySummary(tx, tallySummary(emptySummary(todayLocalDateAR()), saleSummaryLines(itemsForSale), payments, total, (c) => byCode.get(c)?.category, false));
+        if (customerRef && customer) {
+          addAccountEntry(tx, customer.id, { type: "sale", amount: onAccount, balanceAfter: customerBalance, ref: saleRef.id });
+        }
+      });
+
+      const sale: Sale = {
+        id: saleRef.id,
+        at: new Date().toISOString(),
+        items: priced.items.map(i => ({ ...i, costAtSale: i.code === "PAN" ? 0 : i.costAtSale })),
+        total,
+        ...(priced.discounts.length ? { subtotal: priced.subtotal, discounts: priced.discounts } : {}),
+        user: auth.currentUser?.email ?? "desconocido",
+        localDate: todayLocalDateAR(),
+        ...paymentFields(payments, cashTendered, customer),
+        sessionId: cashSession.id,
+      };
+
+      toast.success("Venta registrada");
+      if (receiptConfig.autoPrint) printReceipt(sale, receiptConfig);
+      resetAfterSale();
+    } catch (err: any) {
+      if (isNetworkError(err)) { await queueOffline(saleRef.id, priced, payments, cashTendered, customer); return; }
+      toast.error(err?.message || "No se pudo registrar la venta");
+    }
+  };
+
+  const resetAfterSale = () => {
+    setCart([]);
+    setUndoStack([]);
+    setShowPayment(false);
+    inputRef.current?.focus();
+  };
+
+  // Sin conexión: la venta queda en la cola local con el coste del catálogo cacheado
+  const queueOffline = async (localId: string, priced: PricedCart, payments: SalePayment[], cashTendered?: number, customer?: Customer) => {
+    const pending: PendingSale = {
+      localId,
+      createdAt: new Date().toISOString(),
+      localDate: todayLocalDateAR(),
+      user: auth.currentUser?.email ?? "desconocido",
+      ...paymentFields(payments, cashTendered, customer),
+      sessionId: cashSession?.id ?? null,
+      items: priced.items.map((i) => ({
+        ...i,
+        costAtSale: i.code === "PAN" ? 0 : lineCostAtSale(i, Number(productsMap.get(i.code)?.cost || 0)),
+      })),
+      total: priced.total,
+      ...(priced.discounts.length ? { subtotal: priced.subtotal, discounts: priced.discounts } : {}),
+    };
+    try {
+      await onQueueSale(pending);
+    } catch (err: any) {
+      toast.error(`No se pudo guardar la venta en el navegador: ${err?.message || err}`);
+      return;
+    }
+    toast.warning("Sin conexión: la venta quedó guardada y se sincronizará al volver internet");
+    if (receiptConfig.autoPrint) printReceipt(pendingToSale(pending), receiptConfig);
+    resetAfterSale();
+  };
+
+  // ------- ATAJOS NUMPAD (SOLO EN POS) -------
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      // ignorar si se está escribiendo
+      if (isTypingInInput()) return;
+      // ignorar si hay modales del POS (Pan/Payment) abiertos
+      if (showPan || showPayment) return;
+
+      switch (e.code) {
+        case "Numpad0":
+          e.preventDefault();
+          setWeighTarget("PAN");
+          break;
+        case "NumpadEnter":
+          e.preventDefault();
+          if (cart.length > 0) setShowPayment(true);
+          break;
+        case "NumpadDecimal":
+          e.preventDefault();
+          inputRef.current?.focus();
+          break;
+        case "NumpadAdd":
+          e.preventDefault();
+          incLastItem();
+          break;
+        case "NumpadDivide":
+          e.preventDefault();
+          cancelAll();
+          break;
+        case "NumpadMultiply":
+          e.preventDefault();
+          if (quickKeys.length > 0) setQkPage((currentQkPage + 1) % quickKeys.length);
+          break;
+        default: {
+          // Num1–Num9: teclas rápidas de la página actual
+          const m = /^Numpad([1-9])$/.exec(e.code);
+          const key = m ? quickKeys[currentQkPage]?.keys[Number(m[1]) - 1] : undefined;
+          if (key) { e.preventDefault(); addByCode(key.code, 1); }
+        }
       }
     };
-    reader.readAsText(file);
-  };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [cart, showPan, showPayment, quickKeys, currentQkPage, productsMap]);
 
   return (
-    <div className="space-y-6">
-      <div className="grid md:grid-cols-3 gap-4">
-        <div className="bg-white rounded-2xl border p-4 shadow-sm md:col-span-2">
-          <h2 className="text-lg font-semibold">Agregar producto</h2>
-          <p className="text-sm text-slate-500 mb-3">El precio final se calcula con el margen.</p>
-          <div className="grid sm:grid-cols-2 xl:grid-cols-8 gap-3">
-            <div className="xl:col-span-2">
-              <label className="text-sm">Producto</label>
-              <input className="w-full border rounded-lg p-2 mt-1" value={form.name} onChange={(e)=>setForm({...form, name:e.target.value})} placeholder="Nombre" />
-            </div>
-            <div>
-              <label className="text-sm">Código</label>
-              <input className="w-full border rounded-lg p-2 mt-1" value={form.code} onChange={(e)=>setForm({...form, code:e.target.value})} placeholder="EAN/UPC" />
-            </div>
-            <div>
-              <label className="text-sm">Coste</label>
-              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={form.cost} onChange={(e)=>setForm({...form, cost:e.target.value})} placeholder="$" />
-            </div>
-            <div>
-              <label className="text-sm">Margen %</label>
-              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={form.margin} onChange={(e)=>setForm({...form, margin:Number(e.target.value||0)})} />
-            </div>
-            <div>
-              <label className="text-sm">Stock inicial</label>
-              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={form.stock} onChange={(e)=>setForm({...form, stock:Number(e.target.value||0)})} />
-            </div>
-            <div>
-              <label className="text-sm">Umbral bajo (opcional)</label>
-              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={form.lowThreshold} onChange={(e)=>setForm({...form, lowThreshold:e.target.value})} />
-            </div>
-            <div>
-              <label className="text-sm">Precio final</label>
-              <input className="w-full border rounded-lg p-2 mt-1 bg-slate-100" value={price} readOnly />
-            </div>
-            <div className="flex gap-2 items-end">
-              <button onClick={addProduct} className="bg-black text-white rounded-lg px-4 py-2">Agregar</button>
-              <button onClick={exportJSON} className="border rounded-lg px-4 py-2">Exportar</button>
-              <input type="file" accept="application/json" ref={importRef} className="hidden" onChange={onImport} />
-              <button onClick={()=>importRef.current?.click()} className="border rounded-lg px-4 py-2">Importar</button>
+    <div className="grid xl:grid-cols-3 gap-6">
+      <div className="bg-white rounded-2xl border p-4 shadow-sm xl:col-span-2">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold">Terminal de Punto de Venta</h2>
+            <p className="text-sm text-slate-500">Escaneá el código o escribí parte del nombre y presioná Enter.</p>
+            {cashSession ? (
+              <p className="text-xs text-emerald-700">Caja abierta por {cashSession.openedBy} · {fmtDateTime(cashSession.openedAt)}</p>
+            ) : (
+              <p className="text-xs text-red-600">Caja cerrada: abrila en la pestaña Caja para poder cobrar.</p>
+            )}
+          </div>
+          <div className="flex gap-2 items-center">
+            <div className="relative">
+              <input
+                ref={inputRef}
+                value={scan}
+                onChange={(e)=>setScan(e.target.value)}
+                onKeyDown={onScanKeyDown}
+                placeholder="Código o nombre"
+                className="border rounded-lg p-2 w-56"
+              />
+              {suggestions.length > 0 && (
+                <ul className="absolute z-20 mt-1 w-80 right-0 bg-white border rounded-lg shadow-lg max-h-80 overflow-y-auto">
+                  {suggestions.map((p, i) => (
+                    <li key={p.code}>
+                      <button
+                        className={`w-full text-left px-3 py-2 text-sm flex justify-between gap-2 ${i === sugIdx ? "bg-slate-100" : ""}`}
+                        onMouseEnter={()=>setSugIdx(i)}
+                        onMouseDown={(e)=>{ e.preventDefault(); addByCode(p.code, 1); setScan(""); }}
+                      >
+                        <span>
+                          {p.name}
+                          <span className="block text-xs text-slate-500 font-mono">{p.code}</span>
+                        </span>
+                        <span className="text-right whitespace-nowrap">
+                          {peso(calcPrice(p.cost, p.margin))}{p.soldByWeight ? "/kg" : ""}
+                          <span className={`block text-xs ${(p.stock || 0) <= 0 ? "text-red-600" : "text-slate-500"}`}>
+                            Stock: {p.soldByWeight ? `${fmtKg(p.stock)} kg` : p.stock}
+                          </span>
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
+            <button onClick={onScanEnter} className="bg-black text-white rounded-lg px-4 py-2">Agregar</button>
+
+            {/* Botón PAN */}
+            <button className="bg-sky-500 text-white rounded-lg px-4 py-2" onClick={()=>setWeighTarget("PAN")}>
+              Pan
+            </button>
           </div>
         </div>
-        <div className="bg-white rounded-2xl border p-4 shadow-sm">
-          <h3 className="text-lg font-semibold">Buscar</h3>
-          <p className="text-sm text-slate-500 mb-3">Filtrá por nombre o código.</p>
-          <input className="w-full border rounded-lg p-2" placeholder="Buscar..." value={q} onChange={(e)=>setQ(e.target.value)} />
-        </div>
-      </div>
-
-      <div className="bg-white rounded-2xl border p-4 shadow-sm">
-        <h2 className="text-lg font-semibold mb-1">Listado de productos</h2>
-        <p className="text-sm text-slate-500 mb-3">Podés editar coste, margen y stock. El precio recalcula solo.</p>
+        <QuickKeysGrid
+          pages={quickKeys}
+          page={currentQkPage}
+          onPage={setQkPage}
+          productsMap={productsMap}
+          categories={categories}
+          onPress={(code)=>addByCode(code, 1)}
+        />
         <div className="overflow-x-auto">
           <table className="w-full text-sm">
             <thead>
               <tr className="text-left border-b">
                 <th className="py-2">Producto</th>
-                <th className="py-2">Código</th>
-                <th className="py-2 text-right">Coste</th>
-                <th className="py-2 text-right">Margen %</th>
                 <th className="py-2 text-right">Precio</th>
-                <th className="py-2 text-right">Stock actual</th>
-                <th className="py-2 text-right">Umbral</th>
+                <th className="py-2 text-center">Cantidad</th>
+                <th className="py-2 text-right">Subtotal</th>
+                <th className="py-2 text-right">Acciones</th>
               </tr>
             </thead>
             <tbody>
-              {products.map((p) => (
-                <tr key={p.code} className={`${p.stock <= (p.lowThreshold ?? 999999) ? "bg-red-50" : ""} border-b`}>
-                  <td className="py-2">{p.name}</td>
-                  <td className="py-2 font-mono">{p.code}</td>
-                  <td className="py-2 text-right">
-                    <input type="number" className="w-28 border rounded-lg p-1 text-right"
-                      value={p.cost} onChange={(e)=>updateField(p.code, "cost", e.target.value)} />
+              {cart.map((i, idx) => (
+                <tr key={`${i.code}-${i.name}-${idx}`} className="border-b">
+                  <td className="py-2">
+                    <div className="flex flex-col">
+                      <span>{i.name}</span>
+                      {i.weight != null && (
+                        <span className="text-xs text-slate-500">{fmtKg(i.weight)} kg</span>
+                      )}
+                      {i.code !== "PAN" && (
+                        <span className="text-xs text-slate-500">
+                          Stock disp.: {productsMap.get(i.code)?.soldByWeight ? `${fmtKg(productsMap.get(i.code)?.stock ?? 0)} kg` : productsMap.get(i.code)?.stock ?? 0}
+                        </span>
+                      )}
+                    </div>
                   </td>
-                  <td className="py-2 text-right">
-                    <input type="number" className="w-24 border rounded-lg p-1 text-right"
-                      value={p.margin} onChange={(e)=>updateField(p.code, "margin", e.target.value)} />
+                  <td className="py-2 text-right">{peso(i.price)}</td>
+                  <td className="py-2 text-center">
+                    <input type="number" className="w-24 border rounded-lg p-1 text-center"
+                      value={i.qty} disabled={i.weight != null}
+                      onChange={(e)=>{
+                        const val = Math.max(1, Number(e.target.value||1));
+                        if (i.code !== "PAN") {
+                          const prod = productsMap.get(i.code);
+                          const others = cart.filter((x, j) => j !== idx && x.code === i.code).reduce((acc, x) => acc + stockQtyOf(x), 0);
+                          if (prod && roundKg(others + val) > (prod.stock || 0)) { toast.error(`Stock insuficiente de ${prod.name}`); return; }
+                        }
+                        setCart(prev => prev.map((x, j) => j===idx ? { ...x, qty: val } : x));
+                      }} />
                   </td>
-                  <td className="py-2 text-right">{peso(calcPrice(p.cost, p.margin))}</td>
                   <td className="py-2 text-right">
-                    <input type="number" className="w-24 border rounded-lg p-1 text-right"
-                      value={p.stock} onChange={(e)=>updateField(p.code, "stock", e.target.value)} />
+                    {peso(i.price * i.qty)}
+                    {pricing.items[idx]?.discount ? <div className="text-xs text-emerald-700">−{peso(pricing.items[idx].discount!)} promo</div> : null}
                   </td>
                   <td className="py-2 text-right">
-                    <input type="number" className="w-20 border rounded-lg p-1 text-right"
-                      value={p.lowThreshold ?? ""} onChange={(e)=>updateField(p.code, "lowThreshold", e.target.value)} />
+                    <button className="border rounded-lg px-3 py-1" onClick={()=>removeItem(idx)}>Eliminar</button>
                   </td>
                 </tr>
               ))}
-              {products.length === 0 && (
-                <tr><td colSpan={7} className="text-center text-slate-500 py-6">Sin resultados</td></tr>
+              {cart.length === 0 && (
+                <tr><td colSpan={5} className="text-center text-slate-500 py-6">No hay productos en la venta</td></tr>
               )}
             </tbody>
           </table>
         </div>
       </div>
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h3 className="text-lg font-semibold mb-3">Resumen</h3>
+        {pricing.discounts.length > 0 && (
+          <div className="text-sm mb-2 space-y-1">
+            <div className="flex justify-between text-slate-500"><span>Subtotal</span><span>{peso(pricing.subtotal)}</span></div>
+            {pricing.discounts.map((d) => (
+              <div key={d.promoId} className="flex justify-between text-emerald-700"><span>{d.name}</span><span>−{peso(d.amount)}</span></div>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-between text-lg mb-3">
+          <span>Total</span>
+          <span className="font-semibold text-2xl">{peso(total)}</span>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <button className="border rounded-lg py-2" onClick={undo}>Atrás</button>
+          <button className="border rounded-lg py-2" onClick={cancelAll}>Cancelar</button>
+          <button
+            className="col-span-2 bg-black text-white rounded-lg py-2 disabled:opacity-60"
+            disabled={cart.length === 0}
+            onClick={()=> setShowPayment(true)}
+          >
+            Cobrar
+          </button>
+        </div>
+      </div>
+
+      {/* Modal PAN / producto por kilo */}
+      <WeightModal
+        open={showPan}
+        title={weighTarget === "PAN" || !weighTarget ? "Pan" : weighTarget.name}
+        onClose={()=>{ setWeighTarget(null); inputRef.current?.focus(); }}
+        pricePerKg={weighTarget === "PAN" || !weighTarget ? pricePerKg : calcPrice(weighTarget.cost, weighTarget.margin)}
+        onAdd={(precioFinal, kg)=> {
+          if (weighTarget && weighTarget !== "PAN") { addWeighed(weighTarget, precioFinal, kg); return; }
+          setCart(prev => [{ code:"PAN", name:"Pan", price: precioFinal, qty: 1 }, ...prev]);
+        }}
+      />
+
+      {/* Modal MEDIO DE PAGO */}
+      <PaymentModal
+        open={showPayment}
+        totalFor={(method)=>priceCart(method).total}
+        methods={paymentMethods}
+        customers={customers}
+        onClose={()=>setShowPayment(false)}
+        onConfirm={(payments, cashTendered, customer)=>finalizarCobro(payments, cashTendered, customer)}
+      />
     </div>
   );
 }
 
-// ====================== Modal PAN ======================
-function PanModal({
-  open, onClose, onAdd, pricePerKg,
-}: { open: boolean; onClose: () => void; onAdd: (priceFinal: number) => void; pricePerKg: number; }) {
-  const [mode, setMode] = useState<"precio"|"peso">("precio");
-  const [precio, setPrecio] = useState("");
-  const [gramos, setGramos] = useState("");
+// ====================== CAJA ======================
+function CashTab({ session }: { session: CashSession | null }) {
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [movType, setMovType] = useState<CashMovementType>("withdrawal");
+  const [movAmount, setMovAmount] = useState("");
+  const [movReason, setMovReason] = useState("");
+  const [counted, setCounted] = useState("");
+  const [notes, setNotes] = useState("");
+  const [movements, setMovements] = useState<CashMovement[]>([]);
+  const [history, setHistory] = useState<CashSession[]>([]);
+  const [busy, setBusy] = useState(false);
 
-  const confirmar = () => {
-    if (mode === "precio") {
-      const p = parseNumberOrZero(precio);
-      if (p > 0) onAdd(p);
-    } else {
-      const g = parseNumberOrZero(gramos);
-      if (g > 0) onAdd(Math.round((g / 1000) * pricePerKg));
+  // Movimientos de la sesión abierta
+  useEffect(() => {
+    if (!session) { setMovements([]); return; }
+    const qy = query(collection(db, "cashSessions", session.id, "movements"), orderBy("at", "desc"));
+    const unsub = onSnapshot(qy, (snap) => {
+      const arr: CashMovement[] = [];
+      snap.forEach((d) => {
+        const data: any = d.data();
+        arr.push({ id: d.id, type: data.type, amount: Number(data.amount || 0), reason: data.reason || "", at: toISO(data.at), user: data.user || "" });
+      });
+      setMovements(arr);
+    });
+    return () => unsub();
+  }, [session?.id]);
+
+  // Historial de sesiones cerradas
+  useEffect(() => {
+    const qy = query(collection(db, "cashSessions"), orderBy("openedAt", "desc"), limit(30));
+    const unsub = onSnapshot(qy, (snap) => {
+      const arr: CashSession[] = [];
+      snap.forEach((d) => arr.push(docToCashSession(d.id, d.data())));
+      setHistory(arr.filter((s) => s.status === "closed"));
+    });
+    return () => unsub();
+  }, []);
+
+  const userEmail = () => auth.currentUser?.email ?? "desconocido";
+
+  const openSession = async () => {
+    const amount = parseNumberOrZero(openingFloat);
+    if (amount < 0) { toast.error("El fondo inicial no puede ser negativo"); return; }
+    setBusy(true);
+    try {
+      // Cajas abiertas antes de que existiera cashRegister/current
+      const existing = await getDocs(query(collection(db, "cashSessions"), where("status", "==", "open"), limit(1)));
+      if (!existing.empty) throw new Error("Ya hay una caja abierta");
+      // El puntero se lee y escribe en la misma transacción: dos terminales no pueden abrir a la vez
+      await runTransaction(db, async (tx) => {
+        const pointer = await tx.get(cashRegisterRef());
+        const openId: string | null = pointer.data()?.openSessionId ?? null;
+        if (openId) {
+          const open = await tx.get(doc(db, "cashSessions", openId));
+          if (open.exists() && open.data()?.status === "open") throw new Error("Ya hay una caja abierta");
+        }
+        const sessionRef = doc(collection(db, "cashSessions"));
+        tx.set(sessionRef, {
+          status: "open",
+          openedAt: serverTimestamp(),
+          openedBy: userEmail(),
+          openingFloat: amount,
+          cashSales: 0,
+          otherSales: 0,
+          salesCount: 0,
+          deposits: 0,
+          withdrawals: 0,
+          refunds: 0,
+        });
+        tx.set(cashRegisterRef(), { openSessionId: sessionRef.id });
+      });
+      setOpeningFloat("");
+      toast.success("Caja abierta");
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo abrir la caja");
+    } finally {
+      setBusy(false);
     }
-    onClose();
   };
 
-  useEffect(() => {
-    if (!open) return;
-    const onKey = (e: KeyboardEvent) => {
-      if (e.key === "Escape" || e.key === "Esc") { e.preventDefault(); onClose(); }
-      else if (e.key === "Enter" || e.key === "NumpadEnter") { e.preventDefault(); confirmar(); }
-    };
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [open, mode, precio, gramos]);
+  const addMovement = async () => {
+    if (!session) return;
+    const amount = parseNumberOrZero(movAmount);
+    if (amount <= 0) { toast.error("Ingresá un monto válido"); return; }
+    if (!movReason.trim()) { toast.error("Indicá el motivo"); return; }
+    setBusy(true);
+    try {
+      const sessionRef = doc(db, "cashSessions", session.id);
+      await runTransaction(db, async (tx) => {
+        const snap = await tx.get(sessionRef);
+        if (!snap.exists() || snap.data()?.status !== "open") throw new Error("La caja está cerrada");
+        tx.set(doc(collection(db, "cashSessions", session.id, "movements")), {
+          type: movType,
+          amount,
+          reason: movReason.trim(),
+          at: serverTimestamp(),
+          user: userEmail(),
+        });
+        tx.update(sessionRef, movType === "withdrawal" ? { withdrawals: increment(amount) } : { deposits: increment(amount) });
+      });
+      setMovAmount("");
+      setMovReason("");
+      toast.success(movType === "withdrawal" ? "Retiro registrado" : "Ingreso registrado");
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo registrar el movimiento");
+    } finally {
+      setBusy(false);
+    }
+  };
 
-  if (!open) return null;
+  const closeSession = async () => {
+    if (!session) return;
+    if (counted.trim() === "") { toast.error("Ingresá el efectivo contado"); return; }
+    const countedCash = parseNumberOrZero(counted);
+    setBusy(true);
+    try {
+      const sessionRef = doc(db, "cashSessions", session.id);
+      const result = await runTransaction(db, async (tx) => {
+        const snap = await tx.get(sessionRef);
+        if (!snap.exists() || snap.data()?.status !== "open") throw new Error("La caja ya fue cerrada");
+        const current = docToCashSession(snap.id, snap.data());
+        const expected = expectedCash(current);
+        const discrepancy = countedCash - expected;
+        tx.update(sessionRef, {
+          status: "closed",
+          closedAt: serverTimestamp(),
+          closedBy: userEmail(),
+          countedCash,
+          expectedCash: expected,
+          discrepancy,
+          notes: notes.trim(),
+        });
+        tx.set(cashRegisterRef(), { openSessionId: null });
+        return discrepancy;
+      });
+      setCounted("");
+      setNotes("");
+      if (result === 0) toast.success("Caja cerrada sin diferencias");
+      else toast.warning(`Caja cerrada con diferencia de ${peso(result)}`);
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo cerrar la caja");
+    } finally {
+      setBusy(false);
+    }
+  };
 
   return (
-    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
-      <div className="bg-white rounded-2xl p-4 w-[92%] max-w-md shadow-xl" onClick={(e)=>e.stopPropagation()}>
-        <h3 className="text-lg font-semibold mb-3">Agregar Pan</h3>
-        <div className="flex gap-2 mb-3">
-          <button className={`px-3 py-1 rounded ${mode==="precio"?"bg-blue-500 text-white":"bg-gray-200"}`} onClick={()=>setMode("precio")}>Ingresar PRECIO</button>
-          <button className={`px-3 py-1 rounded ${mode==="peso"?"bg-blue-500 text-white":"bg-gray-200"}`} onClick={()=>setMode("peso")}>Ingresar PESO (gramos)</button>
+    <div className="space-y-6">
+      {!session ? (
+        <div className="bg-white rounded-2xl border p-4 shadow-sm max-w-lg">
+          <h2 className="text-lg font-semibold mb-1">Abrir caja</h2>
+          <p className="text-sm text-slate-500 mb-3">Contá el efectivo inicial del cajón (fondo).</p>
+          <div className="flex gap-2 items-end">
+            <div className="flex-1">
+              <label className="text-sm">Fondo inicial (ARS)</label>
+              <input type="number" className="w-full border rounded-lg p-2 mt-1" value={openingFloat} onChange={(e)=>setOpeningFloat(e.target.value)} />
+            </div>
+            <button onClick={openSession} disabled={busy} className="bg-black text-white rounded-lg px-4 py-2 disabled:opacity-60">Abrir caja</button>
+          </div>
         </div>
-        {mode === "precio" ? (
-          <input autoFocus inputMode="numeric" pattern="[0-9]*" placeholder="Precio final (ej: 800)"
-            className="w-full border rounded p-2 mb-3" value={precio}
-            onChange={(e)=>setPrecio(e.target.value.replace(/[^\d.,]/g,""))} />
-        ) : (
-          <>
-            <p className="text-sm text-slate-600 mb-1">Precio por kilo configurado: ${pricePerKg}/kg</p>
-            <input autoFocus inputMode="numeric" pattern="[0-9]*" placeholder="Gramos (ej: 250 para 1/4 kg)"
-              className="w-full border rounded p-2 mb-3" value={gramos}
-              onChange={(e)=>setGramos(e.target.value.replace(/[^\d]/g,""))} />
-          </>
-        )}
-        <div className="flex justify-end gap-2">
-          <button className="px-3 py-1 rounded border" onClick={onClose}>Cancelar (Esc)</button>
-          <button className="px-3 py-1 rounded bg-blue-500 text-white" onClick={confirmar}>Agregar (Enter)</button>
+      ) : (
+        <div className="grid md:grid-cols-3 gap-4">
+          <div className="bg-white rounded-2xl border p-4 shadow-sm">
+            <h2 className="text-lg font-semibold mb-1">Caja abierta</h2>
+            <p className="text-sm text-slate-500 mb-3">Por {session.openedBy} · {fmtDateTime(session.openedAt)}</p>
+            <dl className="text-sm space-y-1">
+              <div className="flex justify-between"><dt>Fondo inicial</dt><dd>{peso(session.openingFloat)}</dd></div>
+              <div className="flex justify-between"><dt>Ventas en efectivo</dt><dd>{peso(session.cashSales)}</dd></div>
+              <div className="flex justify-between"><dt>Ingresos</dt><dd>{peso(session.deposits)}</dd></div>
+              <div className="flex justify-between"><dt>Retiros</dt><dd>−{peso(session.withdrawals)}</dd></div>
+              <div className="flex justify-between"><dt>Devoluciones en efectivo</dt><dd>−{peso(session.refunds)}</dd></div>
+              <div className="flex justify-between font-semibold border-t pt-1"><dt>Efectivo esperado</dt><dd>{peso(expectedCash(session))}</dd></div>
+              <div className="flex justify-between text-slate-500"><dt>Otros medios</dt><dd>{peso(session.otherSales)}</dd></div>
+              <div className="flex justify-between text-slate-500"><dt>Ventas</dt><dd>{session.salesCount}</dd></div>
+            </dl>
+          </div>
+
+          <div className="bg-white rounded-2xl border p-4 shadow-sm">
+            <h3 className="text-lg font-semibold mb-3">Retiro / ingreso</h3>
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <button className={`flex-1 px-3 py-1 rounded border ${movType==="withdrawal"?"bg-black text-white":""}`} onClick={()=>setMovType("withdrawal")}>Retiro</button>
+                <button className={`flex-1 px-3 py-1 rounded border ${movType==="deposit"?"bg-black text-white":""}`} onClick={()=>setMovType("deposit")}>Ingreso</button>
+              </div>
+              <input type="number" className="w-full border rounded-lg p-2" placeholder="Monto" value={movAmount} onChange={(e)=>setMovAmount(e.target.value)} />
+              <input className="w-full border rounded-lg p-2" placeholder="Motivo (ej: pago a proveedor)" value={movReason} onChange={(e)=>setMovReason(e.target.value)} />
+              <button onClick={addMovement} disabled={busy} className="w-full border rounded-lg py-2 disabled:opacity-60">Registrar</button>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-2xl border p-4 shadow-sm">
+            <h3 className="text-lg font-semibold mb-3">Cerrar caja</h3>
+            <div className="space-y-2">
+              <label className="text-sm">Efectivo contado (ARS)</label>
+              <input type="number" className="w-full border rounded-lg p-2" value={counted} onChange={(e)=>setCounted(e.target.value)} />
+              {counted.trim() !== "" && (
+                <p className="text-sm">Diferencia: <strong>{peso(parseNumberOrZero(counted) - expectedCash(session))}</strong></p>
+              )}
+              <input className="w-full border rounded-lg p-2" placeholder="Observaciones (opcional)" value={notes} onChange={(e)=>setNotes(e.target.value)} />
+              <button onClick={closeSession} disabled={busy} className="w-full bg-black text-white rounded-lg py-2 disabled:opacity-60">Cerrar caja</button>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-2xl border p-4 shadow-sm md:col-span-3">
+            <h3 className="text-lg font-semibold mb-2">Movimientos del turno</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2">Fecha</th>
+                  <th className="py-2">Tipo</th>
+                  <th className="py-2">Motivo</th>
+                  <th className="py-2">Usuario</th>
+                  <th className="py-2 text-right">Monto</th>
+                </tr>
+              </thead>
+              <tbody>
+                {movements.map((m) => (
+                  <tr key={m.id} className="border-b">
+                    <td className="py-2 whitespace-nowrap">{fmtDateTime(m.at)}</td>
+                    <td className="py-2">{m.type === "withdrawal" ? "Retiro" : "Ingreso"}</td>
+                    <td className="py-2">{m.reason}</td>
+                    <td className="py-2">{m.user}</td>
+                    <td className="py-2 text-right">{m.type === "withdrawal" ? "−" : ""}{peso(m.amount)}</td>
+                  </tr>
+                ))}
+                {movements.length === 0 && (
+                  <tr><td colSpan={5} className="text-center text-slate-500 py-6">Sin movimientos</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h2 className="text-lg font-semibold mb-3">Cierres anteriores</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[720px] text-sm">
+            <thead>
+              <tr className="text-left border-b bg-gray-50">
+                <th className="py-2">Apertura</th>
+                <th className="py-2">Cierre</th>
+                <th className="py-2">Usuario</th>
+                <th className="py-2 text-right">Fondo</th>
+                <th className="py-2 text-right">Esperado</th>
+                <th className="py-2 text-right">Contado</th>
+                <th className="py-2 text-right">Diferencia</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((h) => (
+                <tr key={h.id} className="border-b" title={h.notes || undefined}>
+                  <td className="py-2 whitespace-nowrap">{fmtDateTime(h.openedAt)}</td>
+                  <td className="py-2 whitespace-nowrap">{h.closedAt ? fmtDateTime(h.closedAt) : "-"}</td>
+                  <td className="py-2">{h.closedBy}</td>
+                  <td className="py-2 text-right">{peso(h.openingFloat)}</td>
+                  <td className="py-2 text-right">{peso(h.expectedCash ?? 0)}</td>
+                  <td className="py-2 text-right">{peso(h.countedCash ?? 0)}</td>
+                  <td className={`py-2 text-right font-semibold ${(h.discrepancy ?? 0) < 0 ? "text-red-600" : (h.discrepancy ?? 0) > 0 ? "text-amber-600" : "text-emerald-700"}`}>
+                    {peso(h.discrepancy ?? 0)}
+                  </td>
+                </tr>
+              ))}
+              {history.length === 0 && (
+                <tr><td colSpan={7} className="text-center text-slate-500 py-6">Sin cierres registrados</td></tr>
+              )}
+            </tbody>
+          </table>
         </div>
       </div>
     </div>
   );
 }
 
-// ====================== Modal MEDIO DE PAGO ======================
-function PaymentModal({
-  open,
-  onClose,
-  onConfirm,
-}: {
-  open: boolean;
-  onClose: () => void;
-  onConfirm: (method: PaymentMethod) => void;
-}) {
-  const options: { key: PaymentMethod; label: string; hint: string }[] = [
-    { key: "cash", label: "Efectivo", hint: "Cobro en mano" },
-    { key: "transfer", label: "Transferencia", hint: "CBU/Alias/QR" },
-  ];
-  const [index, setIndex] = useState(0);
+// ====================== DEVOLUCIONES / ANULACIONES ======================
+// Registra una devolución (parcial o anulación total) sobre una venta ya grabada.
+// Repone stock (salvo PAN) y, si fue en efectivo, descuenta el reintegro de la caja abierta.
+async function refundSale(
+  saleId: string,
+  lines: { line: number; qty: number }[],
+  reason: string,
+  kind: RefundKind,
+  cashSessionId: string | null,
+) {
+  const saleRef = doc(db, "sales", saleId);
+  return runTransaction(db, async (tx) => {
+    const saleSnap = await tx.get(saleRef);
+    if (!saleSnap.exists()) throw new Error("Venta no encontrada");
+    const data: any = saleSnap.data();
+    if (data.voided) throw new Error("La venta ya está anulada");
+    const items: SaleItem[] = data.items || [];
+    const prevRefunds: SaleRefund[] = data.refunds || [];
+    const refunded = refundedQtyByLine(prevRefunds);
+
+    const refundLines: RefundLine[] = lines
+      .filter((l) => l.qty > 0)
+      .map((l) => {
+        const it = items[l.line];
+        if (!it) throw new Error("Línea inexistente");
+        const remaining = it.qty - (refunded[l.line] || 0);
+        if (l.qty > remaining) throw new Error(`No se pueden devolver ${l.qty} de ${it.name} (quedan ${remaining})`);
+        // Se devuelve lo cobrado: el precio unitario ya con la parte de promociones de la línea
+        return { line: l.line, code: it.code, name: it.name, qty: l.qty, price: netLine(it) / it.qty, costAtSale: Number(it.costAtSale || 0) };
+      });
+    if (refundLines.length === 0) throw new Error("No hay cantidades para devolver");
+
+    // Agrupar por código para leer cada producto una sola vez
+    const qtyByCode = new Map<string, number>();
+    refundLines.forEach((l) => {
+      if (l.code !== "PAN") qtyByCode.set(l.code, roundKg((qtyByCode.get(l.code) || 0) + stockQtyOf({ qty: l.qty, weight: items[l.line].weight })));
+    });
+    const codes = Array.from(qtyByCode.keys());
+    const productSnaps = await Promise.all(codes.map((c) => tx.get(doc(db, "products", c))));
+
+    const amount = refundLines.reduce((acc, l) => acc + l.price * l.qty, 0);
+    // Se reintegra en efectivo hasta cubrir lo que se pagó en efectivo
+    const payments = salePayments({ payments: data.payments, paymentMethod: data.paymentMethod, total: Number(data.total || 0) });
+    const cashPaid = cashOf(payments);
+    const cashOnly = cashPaid >= Number(data.total || 0);
+    const prevCash = prevRefunds.reduce((acc, r) => acc + (r.cashAmount ?? (cashOnly ? r.amount : 0)), 0);
+    const cashAmount = Math.min(amount, Math.max(0, cashPaid - prevCash));
+    const sessionRef = cashAmount > 0 && cashSessionId ? doc(db, "cashSessions", cashSessionId) : null;
+    const sessionSnap = sessionRef ? await tx.get(sessionRef) : null;
+    // Lo fiado se descuenta de la cuenta corriente del cliente
+    const prevAccount = prevRefunds.reduce((acc, r) => acc + (r.accountAmount ?? 0), 0);
+    const accountAmount = data.customerId
+      ? Math.min(amount - cashAmount, Math.max(0, accountOf(payments) - prevAccount))
+      : 0;
+    const customerRef = accountAmount > 0 ? doc(db, "customers", data.customerId) : null;
+    const customerSnap = customerRef ? await tx.get(customerRef) : null;
+
+    const refund: SaleRefund = {
+      id: crypto.randomUUID(),
+      at: new Date().toISOString(),
+      localDate: todayLocalDateAR(),
+      user: auth.currentUser?.email ?? "desconocido",
+      reason,
+      kind,
+      items: refundLines,
+      amount,
+      cashAmount,
+      ...(accountAmount > 0 ? { accountAmount } : {}),
+    };
+
+    productSnaps.forEach((snap, i) => {
+      // Si el producto fue borrado no hay stock que reponer
+      if (!snap.exists()) return;
+      const p = snap.data() as Product;
+      const qty = qtyByCode.get(codes[i]) || 0;
+      const stockAfter = roundKg((p.stock || 0) + qty);
+      tx.update(snap.ref, { stock: stockAfter });
+      addStockMovement(tx, { code: codes[i], name: p.name, type: "refund", delta: qty, stockAfter, ref: saleId, reason });
+    });
+
+    const allRefunds = [...prevRefunds, refund];
+    const after = refundedQtyByLine(allRefunds);
+    const fullyRefunded = items.every((it, idx) => (after[idx] || 0) >= it.qty);
+    tx.update(saleRef, {
+      refunds: allRefunds,
+      refundedTotal: allRefunds.reduce((acc, r) => acc + r.amount, 0),
+      voided: kind === "void" || fullyRefunded,
+    });
+    const catOf = new Map(productSnaps.map((snap, i) => [codes[i], snap.exists() ? (snap.data() as Product).category : undefined]));
+    addToDailySummary(tx, tallySummary(emptySummary(refund.localDate), refundSummaryLines(refund, items), payments, Number(data.total || 0), (c) => catOf.get(c), true));
+
+    if (sessionRef && sessionSnap?.exists() && sessionSnap.data()?.status === "open") {
+      tx.update(sessionRef, { refunds: increment(cashAmount) });
+    }
+    if (customerRef && customerSnap?.exists()) {
+      const balanceAfter = Number(customerSnap.data()?.balance || 0) - accountAmount;
+      addAccountEntry(tx, customerRef.id, { type: "refund", amount: -accountAmount, balanceAfter, ref: saleId, note: reason });
+    }
+    return refund;
+  });
+}
+
+function RefundModal({
+  sale, onClose, cashSessionId,
+}: { sale: Sale | null; onClose: () => void; cashSessionId: string | null }) {
+  const [qtys, setQtys] = useState<Record<number, string>>({});
+  const [reason, setReason] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => { setQtys({}); setReason(""); }, [sale?.id]);
 
   useEffect(() => {
-    if (!open) return;
+    if (!sale) return;
     const onKey = (e: KeyboardEvent) => {
-      if (e.key === "Escape" || e.key === "Esc") { e.preventDefault(); onClose(); return; }
-      if (["ArrowLeft","ArrowUp"].includes(e.key)) { e.preventDefault(); setIndex((i)=> (i+options.length-1)%options.length); }
-      if (["ArrowRight","ArrowDown"].includes(e.key)) { e.preventDefault(); setIndex((i)=> (i+1)%options.length); }
-      if (e.key === "Enter" || e.key === "NumpadEnter") { e.preventDefault(); onConfirm(options[index].key); }
+      if (e.key === "Escape" || e.key === "Esc") { e.preventDefault(); onClose(); }
     };
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, [open, index]);
+  }, [sale]);
 
-  if (!open) return null;
+  if (!sale) return null;
+  const refunded = refundedQtyByLine(sale.refunds);
+
+  const submit = async (kind: RefundKind) => {
+    if (!reason.trim()) { toast.error("Indicá el motivo"); return; }
+    const lines = kind === "void"
+      ? sale.items.map((it, line) => ({ line, qty: it.qty - (refunded[line] || 0) }))
+      : Object.entries(qtys).map(([line, v]) => ({ line: Number(line), qty: parseNumberOrZero(v) }));
+    setBusy(true);
+    try {
+      const r = await refundSale(sale.id, lines, reason.trim(), kind, cashSessionId);
+      toast.success(kind === "void" ? "Venta anulada" : `Devolución registrada: ${peso(r.amount)}`);
+      onClose();
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo registrar la devolución");
+    } finally {
+      setBusy(false);
+    }
+  };
 
   return (
     <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
-      <div className="bg-white rounded-2xl p-4 w-[92%] max-w-md shadow-xl" onClick={(e)=>e.stopPropagation()}>
-        <h3 className="text-lg font-semibold mb-4">Seleccioná el medio de pago</h3>
-        <div className="grid grid-cols-2 gap-3 mb-4">
-          {options.map((opt, i) => (
-            <button
-              key={opt.key}
-              className={`border rounded-xl p-4 text-left ${i===index ? "border-black ring-2 ring-black" : "hover:border-slate-400"}`}
-              onClick={()=>setIndex(i)}
-              onDoubleClick={()=>onConfirm(opt.key)}
-            >
-              <div className="text-base font-semibold">{opt.label}</div>
-              <div className="text-xs text-slate-500">{opt.hint}</div>
-              {i===index && <div className="text-[10px] text-slate-500 mt-2">Enter para confirmar</div>}
-            </button>
-          ))}
-        </div>
+      <div className="bg-white rounded-2xl p-4 w-[92%] max-w-xl shadow-xl" onClick={(e)=>e.stopPropagation()}>
+        <h3 className="text-lg font-semibold mb-1">Devolución / anulación</h3>
+        <p className="text-sm text-slate-500 mb-3">Venta del {fmtDateTime(sale.at)} · {peso(sale.total)}</p>
+        <table className="w-full text-sm mb-3">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2">Producto</th>
+              <th className="py-2 text-right">Vendido</th>
+              <th className="py-2 text-right">Devuelto</th>
+              <th className="py-2 text-right">Devolver</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sale.items.map((it, line) => {
+              const remaining = it.qty - (refunded[line] || 0);
+              return (
+                <tr key={`${sale.id}-${line}`} className="border-b">
+                  <td className="py-2">{it.name} <span className="text-xs text-slate-500">{peso(netLine(it) / it.qty)} c/u</span></td>
+                  <td className="py-2 text-right">{it.qty}</td>
+                  <td className="py-2 text-right">{refunded[line] || 0}</td>
+                  <td className="py-2 text-right">
+                    <input type="number" min={0} max={remaining} disabled={remaining <= 0}
+                      className="w-20 border rounded-lg p-1 text-right"
+                      value={qtys[line] ?? ""}
+                      onChange={(e)=>setQtys((prev) => ({ ...prev, [line]: e.target.value }))} />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <input className="w-full border rounded-lg p-2 mb-3" placeholder="Motivo (obligatorio)" value={reason} onChange={(e)=>setReason(e.target.value)} />
         <div className="flex justify-end gap-2">
           <button className="px-3 py-1 rounded border" onClick={onClose}>Cancelar (Esc)</button>
-          <button className="px-3 py-1 rounded bg-black text-white" onClick={()=>onConfirm(options[index].key)}>Confirmar (Enter)</button>
+          <button className="px-3 py-1 rounded border border-red-300 text-red-700 disabled:opacity-60" disabled={busy} onClick={()=>submit("void")}>Anular venta completa</button>
+          <button className="px-3 py-1 rounded bg-black text-white disabled:opacity-60" disabled={busy} onClick={()=>submit("partial")}>Devolver seleccionados</button>
         </div>
       </div>
     </div>
   );
 }
 
-// ====================== Banner de Atajos + Modal Ayuda ======================
-function ShortcutsBanner({ visible, onOpenHelp }: { visible: boolean; onOpenHelp: () => void }) {
-  if (!visible) return null;
-  return (
-    <div role="region" aria-label="Atajos de teclado" className="w-full bg-sky-50 border-b border-sky-200">
-      <div className="max-w-7xl mx-auto px-4 py-2 flex items-center justify-between">
-        <div className="text-[13px] md:text-sm font-bold text-sky-900">
-          | 0 = PAN | INTRO = COBRAR | o = CÓDIGO | + = +1 ÚLT. | / = CANCELAR |
-        </div>
-        <button
-          aria-label="Ayuda de atajos"
-          className="ml-3 px-2 py-1 rounded border border-sky-300 text-sky-900 text-sm font-semibold bg-white hover:bg-sky-100"
-          onClick={onOpenHelp}
-        >
-          ?
-        </button>
-      </div>
-    </div>
-  );
-}
+// ====================== CLIENTES (cuenta corriente) ======================
+function CustomersTab({
+  customers, cashSession, paymentMethods, can,
+}: { customers: Customer[]; cashSession: CashSession | null; paymentMethods: PaymentMethodDef[]; can: Can }) {
+  const [editId, setEditId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [notes, setNotes] = useState("");
+  const [creditLimit, setCreditLimit] = useState("");
+  const [selectedId, setSelectedId] = useState("");
+  const [payAmount, setPayAmount] = useState("");
+  const [payMethod, setPayMethod] = useState<PaymentMethod>(CASH_METHOD);
+  const [payNote, setPayNote] = useState("");
+  const [adjAmount, setAdjAmount] = useState("");
+  const [adjNote, setAdjNote] = useState("");
+  const [from, setFrom] = useState(() => todayLocalDateAR().slice(0, 8) + "01");
+  const [to, setTo] = useState(() => todayLocalDateAR());
+  const [entries, setEntries] = useState<AccountEntry[]>([]);
+  const [busy, setBusy] = useState(false);
 
-function ShortcutsHelpModal({ open, onClose }: { open: boolean; onClose: () => void }) {
-  if (!open) return null;
-  return (
-    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center" onClick={onClose}>
-      <div className="bg-white rounded-2xl p-5 w-[92%] max-w-lg shadow-xl" onClick={(e)=>e.stopPropagation()}>
-        <h3 className="text-lg font-semibold mb-3">Atajos de teclado (Numpad)</h3>
-        <ul className="list-disc pl-5 space-y-1 text-sm">
-          <li><strong>Num0</strong>: abrir <strong>Pan</strong></li>
-          <li><strong>NumEnter</strong>: <strong>Cobrar</strong></li>
-          <li><strong>Num .</strong>: enfocar <strong>código/buscador</strong></li>
-          <li><strong>Num +</strong>: sumar <strong>+1</strong> a la última línea agregada</li>
-          <li><strong>Num /</strong>: <strong>Cancelar</strong> (vaciar carrito)</li>
-        </ul>
-        <div className="flex justify-end gap-2 mt-4">
-          <button className="px-3 py-1 rounded border" onClick={onClose}>Cerrar (Esc)</button>
-        </div>
-      </div>
-    </div>
+  const canManage = can("customers.manage");
+  const selected = customers.find((c) => c.id === selectedId) ?? null;
+  const debtors = useMemo(
+    () => customers.filter((c) => c.balance > 0.005).sort((a, b) => b.balance - a.balance),
+    [customers],
   );
-}
-
-// ====================== POS ======================
-function POSTab({
-  products, onSaleRecorded, pricePerKg,
-}: { products: Product[]; onSaleRecorded: (s: Sale) => void; pricePerKg: number; }) {
-  const [scan, setScan] = useState("");
-  const [cart, setCart] = useState<SaleItem[]>([]);
-  const [undoStack, setUndoStack] = useState<any[]>([]);
-  const [showPan, setShowPan] = useState(false);
-  const [showPayment, setShowPayment] = useState(false);
-  const inputRef = useRef<HTMLInputElement>(null);
-
-  useEffect(() => { inputRef.current?.focus(); }, []);
-
-  const productsMap = useMemo(() => new Map(products.map(p => [p.code, p])), [products]);
+  const totalDebt = debtors.reduce((acc, c) => acc + c.balance, 0);
+  // La cuenta corriente no puede pagarse con cuenta corriente
+  const payMethods = paymentMethods.filter((m) => m.enabled && m.key !== ACCOUNT_METHOD);
+  const methodLabel = (k: PaymentMethod) => paymentMethods.find((m) => m.key === k)?.label ?? pmLabel(k);
 
-  const addByCode = (code: string, qty = 1) => {
-    const prod = productsMap.get(String(code).trim());
-    if (!prod) { toast.error("Código no encontrado"); return; }
-    const existingQty = cart.find(i => i.code === prod.code)?.qty || 0;
-    if ((existingQty + qty) > (prod.stock || 0)) { toast.error(`Stock insuficiente de ${prod.name}`); return; }
-    const price = calcPrice(prod.cost, prod.margin);
-    setCart((prev) => {
-      const idx = prev.findIndex((i) => i.code === prod.code);
-      if (idx >= 0) {
-        const next = [...prev];
-        next[idx] = { ...next[idx], qty: next[idx].qty + qty };
-        return next;
-      }
-      return [{ code: prod.code, name: prod.name, price, qty }, ...prev];
+  // Movimientos desde "from": con el saldo actual se reconstruye el saldo inicial del período
+  useEffect(() => {
+    if (!selectedId || !from) { setEntries([]); return; }
+    const qy = query(collection(db, "customers", selectedId, "entries"), where("localDate", ">=", from), orderBy("localDate"));
+    const unsub = onSnapshot(qy, (snap) => {
+      const arr: AccountEntry[] = [];
+      snap.forEach((d) => {
+        const data: any = d.data();
+        arr.push({
+          id: d.id,
+          at: toISO(data.at),
+          localDate: data.localDate,
+          type: data.type,
+          amount: Number(data.amount || 0),
+          balanceAfter: Number(data.balanceAfter || 0),
+          user: data.user || "",
+          ref: data.ref || undefined,
+          method: data.method || undefined,
+          note: data.note || undefined,
+        });
+      });
+      setEntries(arr.sort((a, b) => a.localDate.localeCompare(b.localDate) || a.at.localeCompare(b.at)));
     });
-    setUndoStack((s) => [{ type: "add", code, qty }, ...s]);
-  };
+    return () => unsub();
+  }, [selectedId, from]);
 
-  const total = useMemo(() => cart.reduce((acc, i) => acc + i.price * i.qty, 0), [cart]);
+  const statement = useMemo(() => {
+    const inRange = entries.filter((e) => !to || e.localDate <= to);
+    const opening = (selected?.balance ?? 0) - entries.reduce((acc, e) => acc + e.amount, 0);
+    const closing = opening + inRange.reduce((acc, e) => acc + e.amount, 0);
+    return { rows: inRange, opening, closing };
+  }, [entries, to, selected?.balance]);
 
-  const onScanEnter = (e: any) => {
-    e.preventDefault();
-    const code = scan.trim();
-    if (!code) return;
-    addByCode(code, 1);
-    setScan("");
+  const resetForm = () => { setEditId(null); setName(""); setPhone(""); setNotes(""); setCreditLimit(""); };
+
+  const startEdit = (c: Customer) => {
+    setEditId(c.id);
+    setName(c.name);
+    setPhone(c.phone ?? "");
+    setNotes(c.notes ?? "");
+    setCreditLimit(c.creditLimit != null ? String(c.creditLimit) : "");
   };
 
-  const changeQty = (code: string, qty: number) => {
-    const prod = productsMap.get(code);
-    if (!prod) return;
-    const q = Math.max(1, Number(qty||1));
-    if (q > (prod.stock || 0)) { toast.error(`Stock insuficiente de ${prod.name}`); return; }
-    setCart((prev) => prev.map((i) => (i.code === code ? { ...i, qty: q } : i)));
+  const saveCustomer = async () => {
+    if (!name.trim()) { toast.error("Ingresá el nombre del cliente"); return; }
+    const limitValue = creditLimit.trim() === "" ? null : parseNumberOrZero(creditLimit);
+    if (limitValue != null && limitValue < 0) { toast.error("El límite no puede ser negativo"); return; }
+    const payload = { name: name.trim(), phone: phone.trim(), notes: notes.trim() };
+    setBusy(true);
+    try {
+      if (editId) {
+        await updateDoc(doc(db, "customers", editId), { ...payload, creditLimit: limitValue == null ? deleteField() : limitValue });
+        toast.success("Cliente actualizado");
+      } else {
+        const ref = doc(collection(db, "customers"));
+        await setDoc(ref, { ...payload, ...(limitValue == null ? {} : { creditLimit: limitValue }), balance: 0 });
+        setSelectedId(ref.id);
+        toast.success("Cliente creado");
+      }
+      resetForm();
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo guardar el cliente");
+    } finally {
+      setBusy(false);
+    }
   };
 
-  const removeItem = (code: string) => {
-    setCart((prev) => prev.filter((i) => i.code !== code));
+  const removeCustomer = async (c: Customer) => {
+    if (Math.abs(c.balance) > 0.005) { toast.error("No se puede borrar un cliente con saldo"); return; }
+    if (!confirm(`¿Borrar a ${c.name}?`)) return;
+    try {
+      await deleteDoc(doc(db, "customers", c.id));
+      if (selectedId === c.id) setSelectedId("");
+      toast.success("Cliente borrado");
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo borrar el cliente");
+    }
   };
 
-  const cancelAll = () => {
-    setCart([]);
-    setUndoStack([]);
+  const registerPayment = async () => {
+    if (!selected) return;
+    const amount = parseNumberOrZero(payAmount);
+    if (amount <= 0) { toast.error("Ingresá un monto válido"); return; }
+    const customerRef = doc(db, "customers", selected.id);
+    // El cobro en efectivo entra al cajón como ingreso de la caja abierta
+    const sessionRef = payMethod === CASH_METHOD && cashSession ? doc(db, "cashSessions", cashSession.id) : null;
+    setBusy(true);
+    try {
+      await runTransaction(db, async (tx) => {
+        const snap = await tx.get(customerRef);
+        if (!snap.exists()) throw new Error("Cliente no encontrado");
+        const sessionSnap = sessionRef ? await tx.get(sessionRef) : null;
+        const balanceAfter = Number(snap.data()?.balance || 0) - amount;
+        addAccountEntry(tx, selected.id, { type: "payment", amount: -amount, balanceAfter, method: payMethod, note: payNote.trim() });
+        if (sessionRef && sessionSnap?.exists() && sessionSnap.data()?.status === "open") {
+          tx.set(doc(collection(db, "cashSessions", sessionRef.id, "movements")), {
+            type: "deposit",
+            amount,
+            reason: `Cobro cuenta corriente: ${selected.name}`,
+            at: serverTimestamp(),
+            user: auth.currentUser?.email ?? "desconocido",
+          });
+          tx.update(sessionRef, { deposits: increment(amount) });
+        }
+      });
+      setPayAmount("");
+      setPayNote("");
+      toast.success(`Pago de ${peso(amount)} registrado`);
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo registrar el pago");
+    } finally {
+      setBusy(false);
+    }
   };
 
-  const undo = () => {
-    const last = undoStack[0];
-    if (!last) return;
-    setUndoStack((s) => s.slice(1));
-    if (last.type === "add") {
-      setCart((prev) => {
-        const idx = prev.findIndex((i) => i.code === last.code);
-        if (idx < 0) return prev;
-        const item = prev[idx];
-        const newQty = item.qty - last.qty;
-        if (newQty <= 0) return prev.filter((i) => i.code !== last.code);
-        const next = [...prev];
-        next[idx] = { ...item, qty: newQty };
-        return next;
+  const registerAdjustment = async () => {
+    if (!selected) return;
+    const amount = parseNumberOrZero(adjAmount);
+    if (amount === 0) { toast.error("Ingresá un monto distinto de cero"); return; }
+    if (!adjNote.trim()) { toast.error("Indicá el motivo del ajuste"); return; }
+    const customerRef = doc(db, "customers", selected.id);
+    setBusy(true);
+    try {
+      await runTransaction(db, async (tx) => {
+        const snap = await tx.get(customerRef);
+        if (!snap.exists()) throw new Error("Cliente no encontrado");
+        const balanceAfter = Number(snap.data()?.balance || 0) + amount;
+        addAccountEntry(tx, selected.id, { type: "adjustment", amount, balanceAfter, note: adjNote.trim() });
       });
+      setAdjAmount("");
+      setAdjNote("");
+      toast.success("Ajuste registrado");
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo registrar el ajuste");
+    } finally {
+      setBusy(false);
     }
   };
 
-  // +1 al último item del carrito (índice 0), respetando stock si no es PAN
-  const incLastItem = () => {
-    setCart((prev) => {
-      if (prev.length === 0) return prev;
-      const last = prev[0];
-      if (last.code !== "PAN") {
-        const prod = productsMap.get(last.code);
-        const max = prod?.stock ?? 0;
-        if (last.qty + 1 > max) {
-          toast.error(`Stock insuficiente de ${last.name}`);
-          return prev;
-        }
-      }
-      const next = [...prev];
-      next[0] = { ...last, qty: last.qty + 1 };
-      return next;
-    });
+  const exportStatement = () => {
+    if (!selected) return;
+    const rows = [
+      ["fecha","fecha_hora","tipo","detalle","usuario","importe","saldo"],
+      [from, "", "SALDO INICIAL", "", "", "", statement.opening],
+      ...statement.rows.map((e) => [
+        e.localDate,
+        fmtDateTime(e.at),
+        accountEntryLabel(e.type),
+        [e.method ? methodLabel(e.method) : "", e.note ?? ""].filter(Boolean).join(" - "),
+        e.user,
+        e.amount,
+        e.balanceAfter,
+      ]),
+      [to, "", "SALDO FINAL", "", "", "", statement.closing],
+    ];
+    downloadCSV(rows, `cuenta_${selected.name.replace(/\s+/g, "_")}_${from}_${to}.csv`);
   };
 
-  // --- Cobro final (con medio de pago) ---
-  const finalizarCobro = async (paymentMethod: PaymentMethod) => {
-    if (cart.length === 0) { toast.error("No hay productos"); return; }
-    try {
-      await runTransaction(db, async (tx) => {
-        const indexed = cart.map((it) => ({
-          item: it,
-          ref: it.code !== "PAN" ? doc(db, "products", it.code) : null,
-        }));
-        const snaps = await Promise.all(indexed.map(({ ref }) => (ref ? tx.get(ref) : Promise.resolve(null))));
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-3 gap-4">
+        <div className="bg-white rounded-2xl border p-4 shadow-sm md:col-span-2">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold">Saldos pendientes</h2>
+            <span className="text-sm">Total adeudado: <strong>{peso(totalDebt)}</strong></span>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b bg-gray-50">
+                <th className="py-2">Cliente</th>
+                <th className="py-2">Teléfono</th>
+                <th className="py-2 text-right">Límite</th>
+                <th className="py-2 text-right">Saldo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {debtors.map((c) => (
+                <tr key={c.id} className={`border-b cursor-pointer ${selectedId === c.id ? "bg-amber-50" : ""}`} onClick={()=>setSelectedId(c.id)}>
+                  <td className="py-2">{c.name}</td>
+                  <td className="py-2">{c.phone || "-"}</td>
+                  <td className="py-2 text-right">{c.creditLimit != null ? peso(c.creditLimit) : "-"}</td>
+                  <td className={`py-2 text-right font-semibold ${c.creditLimit != null && c.balance > c.creditLimit ? "text-red-600" : ""}`}>{peso(c.balance)}</td>
+                </tr>
+              ))}
+              {debtors.length === 0 && (
+                <tr><td colSpan={4} className="text-center text-slate-500 py-6">Nadie debe nada</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
 
-        const itemsForSale: SaleItem[] = indexed.map(({ item }, i) => {
-          if (item.code === "PAN") return { ...item, costAtSale: 0 };
-          const snap = snaps[i]!;
-          if (!snap?.exists()) throw new Error(`Producto no encontrado: ${item.code}`);
-          const p = snap.data() as Product;
-          if ((p.stock || 0) < item.qty) throw new Error(`Stock insuficiente de ${p.name}`);
-          return { ...item, costAtSale: Number(p.cost || 0) };
-        });
+        {canManage && (
+          <div className="bg-white rounded-2xl border p-4 shadow-sm">
+            <h3 className="text-lg font-semibold mb-3">{editId ? "Editar cliente" : "Nuevo cliente"}</h3>
+            <div className="space-y-2">
+              <input className="w-full border rounded-lg p-2" placeholder="Nombre o razón social" value={name} onChange={(e)=>setName(e.target.value)} />
+              <input className="w-full border rounded-lg p-2" placeholder="Teléfono" value={phone} onChange={(e)=>setPhone(e.target.value)} />
+              <input type="number" className="w-full border rounded-lg p-2" placeholder="Límite de crédito (vacío = sin límite)" value={creditLimit} onChange={(e)=>setCreditLimit(e.target.value)} />
+              <input className="w-full border rounded-lg p-2" placeholder="Notas" value={notes} onChange={(e)=>setNotes(e.target.value)} />
+              <div className="flex gap-2">
+                <button onClick={saveCustomer} disabled={busy} className="flex-1 bg-black text-white rounded-lg py-2 disabled:opacity-60">{editId ? "Guardar" : "Crear"}</button>
+                {editId && <button onClick={resetForm} className="border rounded-lg px-3">Cancelar</button>}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
 
-        indexed.forEach(({ item }, i) => {
-          if (item.code !== "PAN") {
-            const snap = snaps[i]!;
-            const p = snap!.data() as Product;
-            tx.update(indexed[i].ref!, { stock: (p.stock || 0) - item.qty });
-          }
-        });
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <div className="flex flex-wrap items-end gap-2 mb-3">
+          <div className="flex-1 min-w-[200px]">
+            <label className="text-sm">Cliente</label>
+            <select className="w-full border rounded-lg p-2 mt-1" value={selectedId} onChange={(e)=>setSelectedId(e.target.value)}>
+              <option value="">Elegí un cliente…</option>
+              {customers.map((c) => <option key={c.id} value={c.id}>{c.name} · {peso(c.balance)}</option>)}
+            </select>
+          </div>
+          {selected && canManage && (
+            <>
+              <button className="border rounded-lg px-3 py-2" onClick={()=>startEdit(selected)}>Editar</button>
+              <button className="border rounded-lg px-3 py-2 text-red-600" onClick={()=>removeCustomer(selected)}>Borrar</button>
+            </>
+          )}
+        </div>
 
-        const saleRef = doc(collection(db, "sales"));
-        const userEmail = auth.currentUser?.email ?? "desconocido";
-        const total = cart.reduce((acc, i) => acc + i.price * i.qty, 0);
+        {selected && (
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="space-y-4">
+              <div className="border rounded-xl p-3">
+                <p className="text-sm text-slate-500">Saldo actual</p>
+                <p className="text-2xl font-semibold">{peso(selected.balance)}</p>
+                {selected.creditLimit != null && <p className="text-xs text-slate-500">Límite {peso(selected.creditLimit)}</p>}
+                {selected.notes && <p className="text-xs text-slate-500 mt-1">{selected.notes}</p>}
+              </div>
 
-        tx.set(saleRef, {
-          at: serverTimestamp(),
-          localDate: todayLocalDateAR(),
-          user: userEmail,
-          paymentMethod,
-          items: itemsForSale.map(i => ({
-            code: i.code, name: i.name, qty: i.qty, price: i.price, costAtSale: i.costAtSale ?? 0,
-          })),
-          total,
-        });
-      });
+              <div className="border rounded-xl p-3 space-y-2">
+                <h3 className="font-semibold">Registrar pago</h3>
+                <input type="number" className="w-full border rounded-lg p-2" placeholder="Monto" value={payAmount} onChange={(e)=>setPayAmount(e.target.value)} />
+                <select className="w-full border rounded-lg p-2" value={payMethod} onChange={(e)=>setPayMethod(e.target.value)}>
+                  {payMethods.map((m) => <option key={m.key} value={m.key}>{m.label}</option>)}
+                </select>
+                <input className="w-full border rounded-lg p-2" placeholder="Nota (opcional)" value={payNote} onChange={(e)=>setPayNote(e.target.value)} />
+                {payMethod === CASH_METHOD && !cashSession && (
+                  <p className="text-xs text-amber-700">No hay caja abierta: el efectivo no se sumará a ningún turno.</p>
+                )}
+                <button onClick={registerPayment} disabled={busy} className="w-full bg-black text-white rounded-lg py-2 disabled:opacity-60">Registrar pago</button>
+              </div>
 
-      const sale: Sale = {
-        id: crypto.randomUUID(),
-        at: new Date().toISOString(),
-        items: cart.map(i => ({ ...i, costAtSale: i.code === "PAN" ? 0 : i.costAtSale })),
-        total,
-        user: auth.currentUser?.email ?? "desconocido",
-        localDate: todayLocalDateAR(),
-        paymentMethod,
-      };
+              {canManage && (
+                <div className="border rounded-xl p-3 space-y-2">
+                  <h3 className="font-semibold">Ajuste de saldo</h3>
+                  <input type="number" className="w-full border rounded-lg p-2" placeholder="Monto (+ suma deuda, − descuenta)" value={adjAmount} onChange={(e)=>setAdjAmount(e.target.value)} />
+                  <input className="w-full border rounded-lg p-2" placeholder="Motivo" value={adjNote} onChange={(e)=>setAdjNote(e.target.value)} />
+                  <button onClick={registerAdjustment} disabled={busy} className="w-full border rounded-lg py-2 disabled:opacity-60">Registrar ajuste</button>
+                </div>
+              )}
+            </div>
 
-      toast.success("Venta registrada");
-      onSaleRecorded(sale);
-      setCart([]);
-      setUndoStack([]);
-      setShowPayment(false);
-      inputRef.current?.focus();
+            <div className="md:col-span-2">
+              <div className="flex flex-wrap items-end gap-2 mb-2">
+                <h3 className="font-semibold flex-1">Estado de cuenta</h3>
+                <input type="date" className="border rounded-lg p-2" value={from} onChange={(e)=>setFrom(e.target.value)} />
+                <input type="date" className="border rounded-lg p-2" value={to} onChange={(e)=>setTo(e.target.value)} />
+                <button className="border rounded-lg px-3 py-2" onClick={exportStatement}>Exportar CSV</button>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b bg-gray-50">
+                    <th className="py-2">Fecha</th>
+                    <th className="py-2">Tipo</th>
+                    <th className="py-2">Detalle</th>
+                    <th className="py-2 text-right">Importe</th>
+                    <th className="py-2 text-right">Saldo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b text-slate-500">
+                    <td className="py-2" colSpan={4}>Saldo inicial</td>
+                    <td className="py-2 text-right">{peso(statement.opening)}</td>
+                  </tr>
+                  {statement.rows.map((e) => (
+                    <tr key={e.id} className="border-b" title={e.user}>
+                      <td className="py-2 whitespace-nowrap">{fmtDateTime(e.at)}</td>
+                      <td className="py-2">{accountEntryLabel(e.type)}</td>
+                      <td className="py-2">{[e.method ? methodLabel(e.method) : "", e.note ?? ""].filter(Boolean).join(" · ")}</td>
+                      <td className={`py-2 text-right ${e.amount < 0 ? "text-emerald-700" : ""}`}>{peso(e.amount)}</td>
+                      <td className="py-2 text-right">{peso(e.balanceAfter)}</td>
+                    </tr>
+                  ))}
+                  <tr className="font-semibold">
+                    <td className="py-2" colSpan={4}>Saldo final</td>
+                    <td className="py-2 text-right">{peso(statement.closing)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ====================== HISTORIAL ======================
+function HistoryTab({
+  queued, can, cashSession, receiptConfig, paymentMethods,
+}: { queued: Sale[]; can: Can; cashSession: CashSession | null; receiptConfig: ReceiptConfig; paymentMethods: PaymentMethodDef[] }) {
+  const [q, setQ] = useState("");
+  const [filter, setFilter] = useState<SalesFilter>(() => ({ from: todayLocalDateAR(), to: todayLocalDateAR(), method: "all", user: "" }));
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState<number | null>(null);
+  const [refunding, setRefunding] = useState<Sale | null>(null);
+  const [users, setUsers] = useState<string[]>([]);
+  const validRange = !!filter.from && !!filter.to && filter.from <= filter.to;
+
+  const loadPage = async (reset: boolean) => {
+    if (!validRange) return;
+    setLoading(true);
+    try {
+      const snap = await getDocs(salesQuery(filter, SALES_PAGE_SIZE, reset ? null : cursor));
+      const page = snap.docs.map((d) => docToSale(d.id, d.data()));
+      setSales((prev) => (reset ? page : [...prev, ...page]));
+      setCursor(snap.docs[snap.docs.length - 1] ?? null);
+      setHasMore(snap.size === SALES_PAGE_SIZE);
+      setUsers((prev) => Array.from(new Set([...prev, ...page.map((s) => s.user ?? "").filter(Boolean)])).sort());
     } catch (err: any) {
-      toast.error(err?.message || "No se pudo registrar la venta");
+      toast.error(err?.message || "No se pudieron cargar las ventas");
+    } finally {
+      setLoading(false);
     }
   };
 
-  // ------- ATAJOS NUMPAD (SOLO EN POS) -------
-  useEffect(() => {
-    const onKey = (e: KeyboardEvent) => {
-      // ignorar si se está escribiendo
-      if (isTypingInInput()) return;
-      // ignorar si hay modales del POS (Pan/Payment) abiertos
-      if (showPan || showPayment) return;
+  useEffect(() => { loadPage(true); }, [filter]);
 
-      switch (e.code) {
-        case "Numpad0":
-          e.preventDefault();
-          setShowPan(true);
-          break;
-        case "NumpadEnter":
-          e.preventDefault();
-          if (cart.length > 0) setShowPayment(true);
-          break;
-        case "NumpadDecimal":
-          e.preventDefault();
-          inputRef.current?.focus();
-          break;
-        case "NumpadAdd":
-          e.preventDefault();
-          incLastItem();
-          break;
-        case "NumpadDivide":
-          e.preventDefault();
-          cancelAll();
-          break;
+  // Tras una devolución se relee solo esa venta
+  const closeRefund = async () => {
+    const id = refunding?.id;
+    setRefunding(null);
+    if (!id) return;
+    const snap = await getDoc(doc(db, "sales", id));
+    if (snap.exists()) setSales((prev) => prev.map((s) => (s.id === id ? docToSale(id, snap.data()) : s)));
+  };
+
+  const filtered = useMemo(() => {
+    const ids = new Set(sales.map((s) => s.id));
+    // Las ventas en cola no están en Firestore: se filtran acá con el mismo criterio
+    const pendingInRange = queued.filter((s) =>
+      !ids.has(s.id) &&
+      (s.localDate ?? "") >= filter.from && (s.localDate ?? "") <= filter.to &&
+      (filter.method === "all" || salePayments(s).some((p) => p.method === filter.method)) &&
+      (!filter.user.trim() || s.user === filter.user.trim())
+    );
+    const all = [...pendingInRange, ...sales];
+    const t = q.trim().toLowerCase();
+    if (!t) return all;
+    return all.filter((s) =>
+      s.items.some((i) => i.name.toLowerCase().includes(t) || i.code.includes(t)) ||
+      fmtDateTime(s.at).includes(t) ||
+      paymentsLabel(s).toLowerCase().includes(t) ||
+      (s.customerName ?? "").toLowerCase().includes(t)
+    );
+  }, [q, sales, queued, filter]);
+
+  // Recorre todo el rango por páginas, no solo lo cargado en pantalla
+  const exportCSV = async () => {
+    if (!validRange) return;
+    const rows: (string | number)[][] = [
+      ["tipo","fecha_hora","pago","pagos_detalle","usuario","codigo","producto","cantidad","precio_unit","subtotal","descuento","total_venta","id_venta","motivo"],
+    ];
+    setExporting(0);
+    try {
+      let after: QueryDocumentSnapshot | null = null;
+      let read = 0;
+      for (;;) {
+        const snap: QuerySnapshot = await getDocs(salesQuery(filter, BATCH_LIMIT, after));
+        for (const d of snap.docs) {
+          const s = docToSale(d.id, d.data());
+          s.items.forEach((i) => rows.push([
+            "VENTA",
+            fmtDateTime(s.at),
+            paymentsLabel(s),
+            paymentsDetail(s),
+            s.user ?? "",
+            i.code, i.name, i.qty, i.price, i.price*i.qty, i.discount ?? 0, s.total, s.id, ""
+          ]));
+          // Las devoluciones salen con cantidades y subtotales negativos
+          (s.refunds ?? []).forEach((r) => r.items.forEach((i) => rows.push([
+            r.kind === "void" ? "ANULACION" : "DEVOLUCION",
+            fmtDateTime(r.at),
+            paymentsLabel(s),
+            paymentsDetail(s),
+            r.user,
+            i.code, i.name, -i.qty, i.price, -i.price*i.qty, 0, -r.amount, s.id, r.reason
+          ])));
+        }
+        read += snap.size;
+        setExporting(read);
+        if (snap.size < BATCH_LIMIT) break;
+        after = snap.docs[snap.docs.length - 1];
       }
-    };
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [cart.length, showPan, showPayment]);
+      downloadCSV(rows, `historial_${filter.from}_${filter.to}.csv`);
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo exportar el historial");
+    } finally {
+      setExporting(null);
+    }
+  };
 
   return (
-    <div className="grid xl:grid-cols-3 gap-6">
-      <div className="bg-white rounded-2xl border p-4 shadow-sm xl:col-span-2">
-        <div className="flex items-center justify-between mb-4">
-          <div>
-            <h2 className="text-lg font-semibold">Terminal de Punto de Venta</h2>
-            <p className="text-sm text-slate-500">Escaneá o escribí el código y presioná Enter.</p>
-          </div>
-          <div className="flex gap-2 items-center">
-            <input
-              ref={inputRef}
-              value={scan}
-              onChange={(e)=>setScan(e.target.value)}
-              onKeyDown={(e)=>{ if (e.key === "Enter") onScanEnter(e); }}
-              placeholder="Código de barras"
-              className="border rounded-lg p-2 w-56"
-            />
-            <button onClick={onScanEnter} className="bg-black text-white rounded-lg px-4 py-2">Agregar</button>
-
-            {/* Botón PAN */}
-            <button className="bg-sky-500 text-white rounded-lg px-4 py-2" onClick={()=>setShowPan(true)}>
-              Pan
-            </button>
-          </div>
-        </div>
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <input type="date" className="border rounded-lg p-2" value={filter.from} onChange={(e)=>setFilter((f) => ({ ...f, from: e.target.value }))} />
+        <input type="date" className="border rounded-lg p-2" value={filter.to} onChange={(e)=>setFilter((f) => ({ ...f, to: e.target.value }))} />
+        <select className="border rounded-lg p-2" value={filter.method} onChange={(e)=>setFilter((f) => ({ ...f, method: e.target.value }))}>
+          <option value="all">Todos los pagos</option>
+          {paymentMethods.map((m) => <option key={m.key} value={m.key}>{m.label}</option>)}
+        </select>
+        <input
+          className="border rounded-lg p-2"
+          placeholder="Cajero/a (email)"
+          list="history-users"
+          defaultValue={filter.user}
+          onBlur={(e)=>{ const user = e.target.value.trim(); setFilter((f) => (f.user === user ? f : { ...f, user })); }}
+          onKeyDown={(e)=>{ if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }}
+        />
+        <datalist id="history-users">
+          {users.map((u) => <option key={u} value={u} />)}
+        </datalist>
+        <button className="border rounded-lg px-4 py-2 disabled:opacity-60" onClick={exportCSV} disabled={exporting != null || !validRange}>
+          {exporting != null ? `Exportando… (${exporting})` : "Exportar CSV"}
+        </button>
+      </div>
+      <input className="border rounded-lg p-2 w-full" placeholder="Buscar en lo cargado por producto, código, fecha, pago o cliente" value={q} onChange={(e)=>setQ(e.target.value)} />
+      {!validRange && <p className="text-sm text-red-600">El rango de fechas no es válido.</p>}
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h2 className="text-lg font-semibold mb-2">Historial de ventas</h2>
+        <p className="text-sm text-slate-500 mb-3">{filtered.length} ventas{hasMore ? " (hay más)" : ""}</p>
         <div className="overflow-x-auto">
           <table className="w-full text-sm">
             <thead>
               <tr className="text-left border-b">
-                <th className="py-2">Producto</th>
-                <th className="py-2 text-right">Precio</th>
-                <th className="py-2 text-center">Cantidad</th>
-                <th className="py-2 text-right">Subtotal</th>
+                <th className="py-2">Fecha</th>
+                <th className="py-2">Detalle</th>
+                <th className="py-2">Pago</th>
+                <th className="py-2 text-right">Total</th>
                 <th className="py-2 text-right">Acciones</th>
               </tr>
             </thead>
             <tbody>
-              {cart.map((i, idx) => (
-                <tr key={`${i.code}-${i.name}-${idx}`} className="border-b">
+              {filtered.map((s) => {
+                const refunded = refundedQtyByLine(s.refunds);
+                return (
+                <tr key={s.id} className={`border-b ${s.voided ? "bg-slate-50 text-slate-400" : ""}`}>
+                  <td className="py-2 whitespace-nowrap">
+                    {fmtDateTime(s.at)}
+                    {s.voided && <div className="text-xs font-semibold text-red-600">ANULADA</div>}
+                    {s.pendingSync && <div className="text-xs font-semibold text-amber-600">PENDIENTE DE SINCRONIZAR</div>}
+                    {s.offline && <div className="text-xs text-slate-500">cobrada sin conexión</div>}
+                  </td>
                   <td className="py-2">
-                    <div className="flex flex-col">
-                      <span>{i.name}</span>
-                      {i.code !== "PAN" && (
-                        <span className="text-xs text-slate-500">Stock disp.: {productsMap.get(i.code)?.stock ?? 0}</span>
-                      )}
-                    </div>
+                    <ul className="list-disc pl-5 text-sm text-slate-700">
+                      {s.items.map((i, idx) => (
+                        <li key={`${s.id}-${i.code}-${idx}`}>
+                          {i.name} x{i.qty} — {peso(i.price)} c/u = {peso(i.price*i.qty)}
+                          {i.discount ? <span className="text-emerald-700"> (−{peso(i.discount)} promo)</span> : null}
+                          {refunded[idx] ? <span className="text-red-600"> (devuelto {refunded[idx]})</span> : null}
+                        </li>
+                      ))}
+                    </ul>
+                    {(s.discounts ?? []).map((d) => (
+                      <div key={d.promoId} className="text-xs text-emerald-700 mt-1">{d.name}: −{peso(d.amount)}</div>
+                    ))}
+                    {(s.syncConflicts ?? []).map((c, k) => (
+                      <div key={`c-${k}`} className="text-xs text-amber-700 mt-1">Conflicto al sincronizar · {c.name}: {c.reason}</div>
+                    ))}
+                    {(s.refunds ?? []).map((r) => (
+                      <div key={r.id} className="text-xs text-red-600 mt-1">
+                        {r.kind === "void" ? "Anulada" : "Devolución"} {fmtDateTime(r.at)} por {r.user}: {r.reason} (−{peso(r.amount)})
+                      </div>
+                    ))}
                   </td>
-                  <td className="py-2 text-right">{peso(i.price)}</td>
-                  <td className="py-2 text-center">
-                    <input type="number" className="w-24 border rounded-lg p-1 text-center"
-                      value={i.qty}
-                      onChange={(e)=>{
-                        const val = Math.max(1, Number(e.target.value||1));
-                        if (i.code !== "PAN") {
-                          const prod = productsMap.get(i.code);
-                          if (prod && val > (prod.stock || 0)) { toast.error(`Stock insuficiente de ${prod.name}`); return; }
-                        }
-                        setCart(prev => prev.map((x, j) => j===idx ? { ...x, qty: val } : x));
-                      }} />
+                  <td className="py-2">
+                    {salePayments(s).map((p) => (
+                      <div key={p.method} className="mb-1">
+                        <span className={`px-2 py-0.5 rounded text-xs ${p.method===CASH_METHOD ? "bg-emerald-100 text-emerald-700" : "bg-blue-100 text-blue-700"}`}>
+                          {p.label.toUpperCase()}{salePayments(s).length > 1 ? ` ${peso(p.amount)}` : ""}
+                        </span>
+                      </div>
+                    ))}
+                    {s.cashTendered != null && <div className="text-xs text-slate-500">Pagó {peso(s.cashTendered)} · vuelto {peso(s.change ?? 0)}</div>}
+                    {s.customerName && <div className="text-xs text-slate-500">Cliente: {s.customerName}</div>}
                   </td>
-                  <td className="py-2 text-right">{peso(i.price * i.qty)}</td>
-                  <td className="py-2 text-right">
-                    <button className="border rounded-lg px-3 py-1" onClick={()=>removeItem(i.code)}>Eliminar</button>
+                  <td className="py-2 text-right font-semibold">
+                    {s.refundedTotal ? (
+                      <>
+                        <div className="line-through text-slate-400 font-normal">{peso(s.total)}</div>
+                        <div>{peso(s.total - s.refundedTotal)}</div>
+                      </>
+                    ) : peso(s.total)}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <button className="border rounded-lg px-3 py-1" onClick={()=>printReceipt(s, receiptConfig)}>Ticket</button>
+                    {can("sales.void") && !s.voided && !s.pendingSync && (
+                      <button className="border rounded-lg px-3 py-1 ml-2" onClick={()=>setRefunding(s)}>Devolver</button>
+                    )}
                   </td>
                 </tr>
-              ))}
-              {cart.length === 0 && (
-                <tr><td colSpan={5} className="text-center text-slate-500 py-6">No hay productos en la venta</td></tr>
+                );
+              })}
+              {filtered.length === 0 && !loading && (
+                <tr><td colSpan={5} className="text-center text-slate-500 py-6">Sin ventas en el rango</td></tr>
               )}
             </tbody>
           </table>
         </div>
+        {(hasMore || loading) && (
+          <div className="text-center mt-3">
+            <button className="border rounded-lg px-4 py-2 disabled:opacity-60" onClick={()=>loadPage(false)} disabled={loading}>
+              {loading ? "Cargando…" : "Cargar más"}
+            </button>
+          </div>
+        )}
       </div>
-      <div className="bg-white rounded-2xl border p-4 shadow-sm">
-        <h3 className="text-lg font-semibold mb-3">Resumen</h3>
-        <div className="flex justify-between text-lg mb-3">
-          <span>Total</span>
-          <span className="font-semibold text-2xl">{peso(total)}</span>
+
+      <RefundModal sale={refunding} onClose={closeRefund} cashSessionId={cashSession?.id ?? null} />
+    </div>
+  );
+}
+
+// ====================== BALANCE (filtro por método) ======================
+function BalanceTab({
+  paymentMethods, products, categories,
+}: { paymentMethods: PaymentMethodDef[]; products: Product[]; categories: Category[] }) {
+  const [summaries, setSummaries] = useState<DailySummary[]>([]);
+  const [filter, setFilter] = useState<"all" | PaymentMethod>("all");
+  const [rebuilding, setRebuilding] = useState<number | null>(null);
+
+  useEffect(() => {
+    const qy = query(collection(db, "dailySummaries"), orderBy("localDate", "desc"));
+    const unsub = onSnapshot(qy, (snap) => {
+      setSummaries(snap.docs.map((d) => docToDailySummary(d.id, d.data())));
+    });
+    return () => unsub();
+  }, []);
+
+  // Con pagos divididos, byMethod ya trae cada venta pesada según la parte cobrada con ese medio.
+  // La merma no tiene medio de pago: solo se muestra sin filtro.
+  const grouped = useMemo(() => {
+    const rows: [string, SummaryBucket, number][] = [];
+    for (const s of summaries) {
+      const b = filter === "all" ? s : s.byMethod[filter];
+      const waste = filter === "all" ? s.waste : 0;
+      if (b && (b.count || b.refunds || waste)) rows.push([s.localDate, b, waste]);
+    }
+    return rows;
+  }, [summaries, filter]);
+
+  const wasteByReason = useMemo(() => {
+    const acc: Record<string, number> = {};
+    for (const s of summaries) {
+      for (const [r, v] of Object.entries(s.wasteByReason)) acc[r] = (acc[r] ?? 0) + v;
+    }
+    return Object.entries(acc).filter(([, v]) => v).sort((a, b) => b[1] - a[1]);
+  }, [summaries]);
+
+  const byCategory = useMemo(() => {
+    const map = new Map<string, SummaryBucket>();
+    for (const s of summaries) {
+      const cats = filter === "all" ? s.byCategory : s.byMethod[filter]?.byCategory ?? {};
+      for (const [c, b] of Object.entries(cats)) {
+        const key = c === NO_CATEGORY ? "" : c;
+        const acc = map.get(key) ?? emptyBucket();
+        addBucket(acc, b);
+        map.set(key, acc);
+      }
+    }
+    return Array.from(map.entries()).sort((a, b) => b[1].total - a[1].total);
+  }, [summaries, filter]);
+
+  const rebuild = async () => {
+    if (!confirm("Se recalculan los resúmenes leyendo todas las ventas y mermas. Conviene hacerlo con la caja cerrada. ¿Continuar?")) return;
+    setRebuilding(0);
+    try {
+      const r = await rebuildDailySummaries(products, setRebuilding);
+      toast.success(`Resúmenes reconstruidos: ${r.sales} ventas en ${r.days} días`);
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudieron reconstruir los resúmenes");
+    } finally {
+      setRebuilding(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-slate-600">Filtrar por pago:</span>
+        <div className="flex gap-2">
+          <button className={`px-3 py-1 rounded border ${filter==="all"?"bg-black text-white":""}`} onClick={()=>setFilter("all")}>TODO</button>
+          {paymentMethods.map((m) => (
+            <button key={m.key} className={`px-3 py-1 rounded border ${filter===m.key?"bg-black text-white":""}`} onClick={()=>setFilter(m.key)}>{m.label}</button>
+          ))}
         </div>
-        <div className="grid grid-cols-2 gap-2">
-          <button className="border rounded-lg py-2" onClick={undo}>Atrás</button>
-          <button className="border rounded-lg py-2" onClick={cancelAll}>Cancelar</button>
-          <button
-            className="col-span-2 bg-black text-white rounded-lg py-2 disabled:opacity-60"
-            disabled={cart.length === 0}
-            onClick={()=> setShowPayment(true)}
-          >
-            Cobrar
-          </button>
+        <div className="flex-1" />
+        <button className="border rounded-lg px-3 py-1 text-sm disabled:opacity-60" onClick={rebuild} disabled={rebuilding != null}>
+          {rebuilding != null ? `Reconstruyendo… (${rebuilding} ventas)` : "Reconstruir resúmenes"}
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h2 className="text-lg font-semibold mb-3">Balance por día</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[640px] text-sm">
+            <thead>
+              <tr className="text-left border-b bg-gray-50">
+                <th className="py-2">Fecha</th>
+                <th className="py-2 text-right">Coste (ARS)</th>
+                <th className="py-2 text-right">Ganancia (ARS)</th>
+                {filter === "all" && <th className="py-2 text-right">Merma (ARS)</th>}
+                {filter === "all" && <th className="py-2 text-right">Ganancia real (ARS)</th>}
+                <th className="py-2 text-right">Promociones (ARS)</th>
+                <th className="py-2 text-right">Devoluciones (ARS)</th>
+                <th className="py-2 text-right">Ventas netas (ARS)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {grouped.map(([d, v, waste]) => (
+                <tr key={d} className="border-b">
+                  <td className="py-2">{d}</td>
+                  <td className="py-2 text-right">{peso(v.cost)}</td>
+                  <td className="py-2 text-right">{peso(v.total - v.cost)}</td>
+                  {filter === "all" && <td className="py-2 text-right">{waste ? `−${peso(waste)}` : "-"}</td>}
+                  {filter === "all" && <td className="py-2 text-right font-semibold">{peso(v.total - v.cost - waste)}</td>}
+                  <td className="py-2 text-right">{v.discounts ? `−${peso(v.discounts)}` : "-"}</td>
+                  <td className="py-2 text-right">{v.refunds ? `−${peso(v.refunds)}` : "-"}</td>
+                  <td className="py-2 text-right">{peso(v.total)}</td>
+                </tr>
+              ))}
+              {grouped.length === 0 && (
+                <tr><td colSpan={filter === "all" ? 8 : 6} className="text-center text-slate-500 py-6">Sin ventas registradas (si hay ventas anteriores, reconstruí los resúmenes)</td></tr>
+              )}
+            </tbody>
+          </table>
         </div>
       </div>
 
-      {/* Modal PAN */}
-      <PanModal
-        open={showPan}
-        onClose={()=>setShowPan(false)}
-        pricePerKg={pricePerKg}
-        onAdd={(precioFinal)=> {
-          setCart(prev => [{ code:"PAN", name:"Pan", price: precioFinal, qty: 1 }, ...prev]);
-        }}
-      />
+      {filter === "all" && wasteByReason.length > 0 && (
+        <div className="bg-white rounded-2xl border p-4 shadow-sm">
+          <h2 className="text-lg font-semibold mb-3">Merma por motivo</h2>
+          <div className="flex flex-wrap gap-3 text-sm">
+            {wasteByReason.map(([r, v]) => (
+              <div key={r} className="border rounded-xl px-3 py-2">
+                <div className="text-slate-500">{wasteReasonLabel(r)}</div>
+                <div className="font-semibold">{peso(v)}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
 
-      {/* Modal MEDIO DE PAGO */}
-      <PaymentModal
-        open={showPayment}
-        onClose={()=>setShowPayment(false)}
-        onConfirm={(method)=>finalizarCobro(method)}
-      />
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h2 className="text-lg font-semibold mb-3">Por categoría</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[640px] text-sm">
+            <thead>
+              <tr className="text-left border-b bg-gray-50">
+                <th className="py-2">Categoría</th>
+                <th className="py-2 text-right">Unidades</th>
+                <th className="py-2 text-right">Coste (ARS)</th>
+                <th className="py-2 text-right">Ganancia (ARS)</th>
+                <th className="py-2 text-right">Ventas netas (ARS)</th>
+                <th className="py-2 text-right">% ventas</th>
+              </tr>
+            </thead>
+            <tbody>
+              {byCategory.map(([c, v]) => {
+                const all = byCategory.reduce((acc, [, x]) => acc + x.total, 0);
+                return (
+                  <tr key={c || "none"} className="border-b">
+                    <td className="py-2">{categoryName(categories, c || undefined)}</td>
+                    <td className="py-2 text-right">{fmtKg(v.qty)}</td>
+                    <td className="py-2 text-right">{peso(v.cost)}</td>
+                    <td className="py-2 text-right">{peso(v.total - v.cost)}</td>
+                    <td className="py-2 text-right">{peso(v.total)}</td>
+                    <td className="py-2 text-right">{all ? `${((v.total / all) * 100).toFixed(1)}%` : "-"}</td>
+                  </tr>
+                );
+              })}
+              {byCategory.length === 0 && (
+                <tr><td colSpan={6} className="text-center text-slate-500 py-6">Sin ventas registradas</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
     </div>
   );
 }
 
-// ====================== HISTORIAL ======================
-function HistoryTab({ sales }: { sales: Sale[] }) {
-  const [q, setQ] = useState("");
-  const filtered = useMemo(() => {
-    const t = q.trim().toLowerCase();
-    if (!t) return sales;
-    return sales.filter((s) =>
-      s.items.some((i) => i.name.toLowerCase().includes(t) || i.code.includes(t)) ||
-      fmtDateTime(s.at).includes(t) ||
-      pmLabel(s.paymentMethod).toLowerCase().includes(t)
-    );
-  }, [q, sales]);
+// ====================== REPORTES ======================
+type ProductStats = { code: string; name: string; qty: number; total: number; cost: number; profit: number };
+type PeriodStats = {
+  total: number;
+  cost: number;
+  profit: number;
+  tickets: number;
+  qty: number;
+  products: Map<string, ProductStats>;
+  heat: number[][]; // [día de la semana][hora] → ventas netas
+};
+
+// Las devoluciones se restan de la venta original (en su período, no en el de la devolución)
+function periodStats(sales: Sale[]): PeriodStats {
+  const out: PeriodStats = {
+    total: 0, cost: 0, profit: 0, tickets: 0, qty: 0,
+    products: new Map(),
+    heat: Array.from({ length: 7 }, () => Array(24).fill(0)),
+  };
+  const add = (code: string, name: string, qty: number, rev: number, cost: number) => {
+    const acc = out.products.get(code) ?? { code, name, qty: 0, total: 0, cost: 0, profit: 0 };
+    acc.qty += qty; acc.total += rev; acc.cost += cost; acc.profit += rev - cost;
+    out.products.set(code, acc);
+    out.qty += qty; out.total += rev; out.cost += cost; out.profit += rev - cost;
+  };
+  for (const s of sales) {
+    const before = out.total;
+    for (const it of (s.items ?? [])) {
+      add(it.code, it.name, stockQtyOf(it), netLine(it), Number(it.costAtSale ?? 0) * Number(it.qty));
+    }
+    for (const r of (s.refunds ?? [])) {
+      for (const it of r.items) {
+        const line = s.items?.[it.line];
+        add(it.code, it.name, -stockQtyOf({ qty: it.qty, weight: line?.weight }), -Number(it.price) * Number(it.qty), -Number(it.costAtSale ?? 0) * Number(it.qty));
+      }
+    }
+    const net = out.total - before;
+    if (net <= 0.005) continue; // anuladas o devueltas por completo
+    out.tickets += 1;
+    const { weekday, time } = nowPartsAR(new Date(s.at));
+    const hour = Number(time.slice(0, 2));
+    if (weekday >= 0 && hour >= 0 && hour < 24) out.heat[weekday][hour] += net;
+  }
+  return out;
+}
+
+function pctChange(now: number, prev: number) {
+  if (!prev) return null;
+  return ((now - prev) / Math.abs(prev)) * 100;
+}
+
+function Delta({ now, prev }: { now: number; prev: number }) {
+  const d = pctChange(now, prev);
+  if (d == null) return <span className="text-xs text-slate-400">sin datos previos</span>;
+  return (
+    <span className={`text-xs font-semibold ${d >= 0 ? "text-emerald-700" : "text-red-600"}`}>
+      {d >= 0 ? "▲" : "▼"} {Math.abs(d).toFixed(1)}%
+    </span>
+  );
+}
+
+function ReportsTab({ products }: { products: Product[] }) {
+  const [from, setFrom] = useState(() => shiftLocalDate(todayLocalDateAR(), -29));
+  const [to, setTo] = useState(() => todayLocalDateAR());
+  const [rankBy, setRankBy] = useState<"qty" | "profit">("qty");
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // El período anterior tiene la misma cantidad de días y termina el día antes de "from"
+  const span = from && to && from <= to ? localDateSpan(from, to) : 0;
+  const prevFrom = span ? shiftLocalDate(from, -span) : "";
+  const prevTo = span ? shiftLocalDate(from, -1) : "";
+
+  useEffect(() => {
+    if (!span) { setSales([]); return; }
+    let cancelled = false;
+    setLoading(true);
+    (async () => {
+      try {
+        const qy = query(collection(db, "sales"), where("localDate", ">=", prevFrom), where("localDate", "<=", to), orderBy("localDate"));
+        const snaps = await getDocs(qy);
+        if (cancelled) return;
+        setSales(snaps.docs.map((d) => docToSale(d.id, d.data())));
+      } catch (err: any) {
+        if (!cancelled) toast.error(err?.message || "No se pudieron cargar las ventas");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [from, to, span, prevFrom]);
+
+  const current = useMemo(() => periodStats(sales.filter((s) => (s.localDate ?? "") >= from)), [sales, from]);
+  const previous = useMemo(() => periodStats(sales.filter((s) => (s.localDate ?? "") <= prevTo)), [sales, prevTo]);
+
+  const productRows = useMemo(
+    () => Array.from(current.products.values()).sort((a, b) => b.total - a.total),
+    [current],
+  );
+  // Los que no vendieron nada en el rango también compiten (en cero): son los verdaderos menos vendidos
+  const ranked = useMemo(() => {
+    const rows = [...productRows];
+    for (const p of products) {
+      if (p.kind !== "ingredient" && !current.products.has(p.code)) rows.push({ code: p.code, name: p.name, qty: 0, total: 0, cost: 0, profit: 0 });
+    }
+    return rows.sort((a, b) => (rankBy === "qty" ? b.qty - a.qty : b.profit - a.profit));
+  }, [productRows, products, current, rankBy]);
+  const best = ranked.slice(0, 10);
+  const worst = ranked.slice(-10).reverse().filter((p) => !best.includes(p));
+
+  // Rango de horas entre la primera y la última con ventas
+  const hours = useMemo(() => {
+    const used = Array.from({ length: 24 }, (_, h) => h).filter((h) => current.heat.some((row) => row[h] > 0));
+    if (used.length === 0) return [];
+    return Array.from({ length: used[used.length - 1] - used[0] + 1 }, (_, i) => used[0] + i);
+  }, [current]);
+  const heatMax = Math.max(0, ...current.heat.flat());
+
+  const avgTicket = current.tickets ? current.total / current.tickets : 0;
+  const prevAvgTicket = previous.tickets ? previous.total / previous.tickets : 0;
+  const margin = (p: { total: number; profit: number }) => (p.total ? (p.profit / p.total) * 100 : 0);
 
   const exportCSV = () => {
-    const rows = [
-      ["fecha_hora","pago","codigo","producto","cantidad","precio_unit","subtotal","total_venta","id_venta"],
-      ...sales.flatMap((s) => s.items.map((i) => [
-        fmtDateTime(s.at),
-        pmLabel(s.paymentMethod),
-        i.code, i.name, i.qty, i.price, i.price*i.qty, s.total, s.id
-      ]))
+    const prevOf = (code: string) => previous.products.get(code);
+    const rows: (string | number)[][] = [
+      ["resumen", "periodo", "ventas_netas", "coste", "ganancia", "margen_pct", "tickets", "ticket_promedio"],
+      ["actual", `${from} a ${to}`, current.total, current.cost, current.profit, margin(current).toFixed(1), current.tickets, avgTicket.toFixed(2)],
+      ["anterior", `${prevFrom} a ${prevTo}`, previous.total, previous.cost, previous.profit, margin(previous).toFixed(1), previous.tickets, prevAvgTicket.toFixed(2)],
+      [],
+      ["codigo", "producto", "unidades", "ventas_netas", "coste", "ganancia", "margen_pct", "unidades_anterior", "ventas_anterior"],
+      ...productRows.map((p) => [
+        p.code, p.name, p.qty, p.total, p.cost, p.profit, margin(p).toFixed(1),
+        prevOf(p.code)?.qty ?? 0, prevOf(p.code)?.total ?? 0,
+      ]),
+      [],
+      ["dia", ...Array.from({ length: 24 }, (_, h) => `${h}h`)],
+      ...WEEKDAYS.map((d, i) => [d, ...current.heat[i].map((v) => Math.round(v))]),
     ];
-    const csv = rows.map(r => r.map(v => typeof v === "string" && v.includes(",") ? `"${v.replace(/"/g,'""')}"` : v).join(",")).join("\n");
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url; a.download = `historial_${new Date().toISOString().slice(0,10)}.csv`; a.click();
-    URL.revokeObjectURL(url);
+    downloadCSV(rows, `reporte_${from}_${to}.csv`);
   };
 
+  const cards = [
+    { label: "Ventas netas", now: current.total, prev: previous.total, fmt: peso },
+    { label: "Ganancia", now: current.profit, prev: previous.profit, fmt: peso },
+    { label: "Tickets", now: current.tickets, prev: previous.tickets, fmt: (n: number) => String(n) },
+    { label: "Ticket promedio", now: avgTicket, prev: prevAvgTicket, fmt: peso },
+    { label: "Margen", now: margin(current), prev: margin(previous), fmt: (n: number) => `${n.toFixed(1)}%` },
+  ];
+
+  const rankTable = (title: string, list: ProductStats[]) => (
+    <div className="bg-white rounded-2xl border p-4 shadow-sm">
+      <h3 className="text-lg font-semibold mb-2">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left border-b bg-gray-50">
+            <th className="py-2">Producto</th>
+            <th className="py-2 text-right">Unidades</th>
+            <th className="py-2 text-right">Ganancia</th>
+          </tr>
+        </thead>
+        <tbody>
+          {list.map((p) => (
+            <tr key={p.code} className="border-b">
+              <td className="py-2">{p.name}</td>
+              <td className="py-2 text-right">{fmtKg(p.qty)}</td>
+              <td className={`py-2 text-right ${p.profit < 0 ? "text-red-600" : ""}`}>{peso(p.profit)}</td>
+            </tr>
+          ))}
+          {list.length === 0 && (
+            <tr><td colSpan={3} className="text-center text-slate-500 py-6">Sin datos</td></tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+
   return (
     <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-slate-600">Desde</span>
+        <input type="date" className="border rounded-lg p-2" value={from} onChange={(e)=>setFrom(e.target.value)} />
+        <span className="text-sm text-slate-600">hasta</span>
+        <input type="date" className="border rounded-lg p-2" value={to} onChange={(e)=>setTo(e.target.value)} />
+        {span > 0 && <span className="text-sm text-slate-500">Comparado con {prevFrom} a {prevTo}</span>}
+        <div className="flex-1" />
+        <button className="border rounded-lg px-4 py-2 disabled:opacity-60" onClick={exportCSV} disabled={loading || !span}>Exportar CSV</button>
+      </div>
+      {!span && <p className="text-sm text-red-600">El rango de fechas no es válido.</p>}
+      {loading && <p className="text-sm text-slate-500">Cargando ventas…</p>}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {cards.map((c) => (
+          <div key={c.label} className="bg-white rounded-2xl border p-4 shadow-sm">
+            <p className="text-sm text-slate-500">{c.label}</p>
+            <p className="text-2xl font-semibold">{c.fmt(c.now)}</p>
+            <p className="text-xs text-slate-500">Antes: {c.fmt(c.prev)} <Delta now={c.now} prev={c.prev} /></p>
+          </div>
+        ))}
+      </div>
+
       <div className="flex items-center gap-2">
-        <input className="border rounded-lg p-2 flex-1" placeholder="Buscar por producto, código, fecha o pago" value={q} onChange={(e)=>setQ(e.target.value)} />
-        <button className="border rounded-lg px-4 py-2" onClick={exportCSV}>Exportar CSV</button>
+        <span className="text-sm text-slate-600">Ranking por:</span>
+        <button className={`px-3 py-1 rounded border ${rankBy==="qty"?"bg-black text-white":""}`} onClick={()=>setRankBy("qty")}>Unidades</button>
+        <button className={`px-3 py-1 rounded border ${rankBy==="profit"?"bg-black text-white":""}`} onClick={()=>setRankBy("profit")}>Ganancia</button>
+      </div>
+      <div className="grid md:grid-cols-2 gap-4">
+        {rankTable("Más vendidos", best)}
+        {rankTable("Menos vendidos", worst)}
       </div>
+
       <div className="bg-white rounded-2xl border p-4 shadow-sm">
-        <h2 className="text-lg font-semibold mb-2">Historial de ventas</h2>
-        <p className="text-sm text-slate-500 mb-3">{filtered.length} ventas</p>
+        <h2 className="text-lg font-semibold mb-3">Ventas por día y hora</h2>
         <div className="overflow-x-auto">
-          <table className="w-full text-sm">
+          <table className="text-xs">
             <thead>
-              <tr className="text-left border-b">
-                <th className="py-2">Fecha</th>
-                <th className="py-2">Detalle</th>
-                <th className="py-2">Pago</th>
-                <th className="py-2 text-right">Total</th>
+              <tr>
+                <th className="py-1 pr-2 text-left">Día</th>
+                {hours.map((h) => <th key={h} className="py-1 px-1 text-center w-12">{h}h</th>)}
+                <th className="py-1 pl-2 text-right">Total</th>
               </tr>
             </thead>
             <tbody>
-              {filtered.map((s) => (
-                <tr key={s.id} className="border-b">
-                  <td className="py-2 whitespace-nowrap">{fmtDateTime(s.at)}</td>
-                  <td className="py-2">
-                    <ul className="list-disc pl-5 text-sm text-slate-700">
-                      {s.items.map((i, idx) => (
-                        <li key={`${s.id}-${i.code}-${idx}`}>{i.name} x{i.qty} — {peso(i.price)} c/u = {peso(i.price*i.qty)}</li>
-                      ))}
-                    </ul>
-                  </td>
-                  <td className="py-2">
-                    <span className={`px-2 py-0.5 rounded text-xs ${s.paymentMethod==="transfer" ? "bg-blue-100 text-blue-700" : "bg-emerald-100 text-emerald-700"}`}>
-                      {pmLabel(s.paymentMethod)}
-                    </span>
-                  </td>
-                  <td className="py-2 text-right font-semibold">{peso(s.total)}</td>
+              {WEEKDAYS.map((d, i) => (
+                <tr key={d}>
+                  <td className="py-1 pr-2 font-medium">{d}</td>
+                  {hours.map((h) => {
+                    const v = current.heat[i][h];
+                    const alpha = heatMax ? v / heatMax : 0;
+                    return (
+                      <td key={h} className="p-0.5">
+                        <div
+                          className="h-8 rounded flex items-center justify-center"
+                          style={{ background: v > 0 ? `rgba(217, 119, 6, ${0.1 + alpha * 0.9})` : "#f8fafc", color: alpha > 0.6 ? "#fff" : undefined }}
+                          title={`${d} ${h}h: ${peso(v)}`}
+                        >
+                          {v > 0 ? Math.round(v / 1000) + "k" : ""}
+                        </div>
+                      </td>
+                    );
+                  })}
+                  <td className="py-1 pl-2 text-right font-semibold">{peso(current.heat[i].reduce((a, b) => a + b, 0))}</td>
                 </tr>
               ))}
-              {filtered.length === 0 && (
-                <tr><td colSpan={4} className="text-center text-slate-500 py-6">Sin ventas registradas</td></tr>
+              {hours.length > 0 && (
+                <tr className="border-t">
+                  <td className="py-1 pr-2 font-semibold">Total</td>
+                  {hours.map((h) => (
+                    <td key={h} className="py-1 text-center font-semibold">{Math.round(current.heat.reduce((acc, row) => acc + row[h], 0) / 1000)}k</td>
+                  ))}
+                  <td />
+                </tr>
+              )}
+            </tbody>
+          </table>
+          {hours.length === 0 && <p className="text-center text-slate-500 py-6 text-sm">Sin ventas en el período</p>}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h2 className="text-lg font-semibold mb-3">Margen por producto</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[760px] text-sm">
+            <thead>
+              <tr className="text-left border-b bg-gray-50">
+                <th className="py-2">Producto</th>
+                <th className="py-2 text-right">Unidades</th>
+                <th className="py-2 text-right">Ventas netas</th>
+                <th className="py-2 text-right">Coste</th>
+                <th className="py-2 text-right">Ganancia</th>
+                <th className="py-2 text-right">Margen</th>
+                <th className="py-2 text-right">vs. anterior</th>
+              </tr>
+            </thead>
+            <tbody>
+              {productRows.map((p) => (
+                <tr key={p.code} className="border-b">
+                  <td className="py-2">{p.name} <span className="text-xs text-slate-400">{p.code}</span></td>
+                  <td className="py-2 text-right">{fmtKg(p.qty)}</td>
+                  <td className="py-2 text-right">{peso(p.total)}</td>
+                  <td className="py-2 text-right">{peso(p.cost)}</td>
+                  <td className="py-2 text-right">{peso(p.profit)}</td>
+                  <td className={`py-2 text-right ${margin(p) < 0 ? "text-red-600" : ""}`}>{margin(p).toFixed(1)}%</td>
+                  <td className="py-2 text-right"><Delta now={p.total} prev={previous.products.get(p.code)?.total ?? 0} /></td>
+                </tr>
+              ))}
+              {productRows.length === 0 && (
+                <tr><td colSpan={7} className="text-center text-slate-500 py-6">Sin ventas en el período</td></tr>
               )}
             </tbody>
           </table>
         </div>
       </div>
+
+      {span > 0 && <PriceChangesReport from={from} to={to} />}
     </div>
   );
 }
 
-// ====================== BALANCE (filtro por método) ======================
-function BalanceTab() {
-  const [sales, setSales] = useState<Sale[]>([]);
-  const [filter, setFilter] = useState<"all" | PaymentMethod>("all");
+// Todos los cambios de precio del rango, agrupables por producto para ver cuánto subió cada uno
+function PriceChangesReport({ from, to }: { from: string; to: string }) {
+  const [changes, setChanges] = useState<PriceChange[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [sourceFilter, setSourceFilter] = useState<"all" | PriceChangeSource>("all");
 
   useEffect(() => {
+    if (!from || !to || from > to) { setChanges([]); return; }
+    let cancelled = false;
+    setLoading(true);
     (async () => {
-      const qy = query(collection(db, "sales"), orderBy("localDate", "desc"));
-      const snaps = await getDocs(qy);
-      const list: Sale[] = snaps.docs.map(d => d.data() as any);
-      setSales(list);
+      try {
+        const qy = query(collection(db, "priceChanges"), where("localDate", ">=", from), where("localDate", "<=", to), orderBy("localDate", "desc"));
+        const snaps = await getDocs(qy);
+        if (cancelled) return;
+        setChanges(snaps.docs.map((d) => docToPriceChange(d.id, d.data())).sort((a, b) => b.at.localeCompare(a.at)));
+      } catch (err: any) {
+        if (!cancelled) toast.error(err?.message || "No se pudieron cargar los cambios de precio");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
     })();
-  }, []);
+    return () => { cancelled = true; };
+  }, [from, to]);
 
-  const filteredSales = useMemo(() => {
-    if (filter === "all") return sales;
-    return sales.filter(s => (s.paymentMethod ?? "cash") === filter);
-  }, [sales, filter]);
+  const shown = sourceFilter === "all" ? changes : changes.filter((c) => c.source === sourceFilter);
 
-  const grouped = useMemo(() => {
-    const map = new Map<string, { cost: number; profit: number; total: number }>();
-    for (const s of filteredSales) {
-      const key = s.localDate ?? todayLocalDateAR();
-      let acc = map.get(key);
-      if (!acc) { acc = { cost: 0, profit: 0, total: 0 }; map.set(key, acc); }
-      let dayCost = 0, dayProfit = 0, dayTotal = 0;
-      for (const it of (s.items ?? [])) {
-        const costUnit = Number(it.costAtSale ?? 0);
-        const rev = Number(it.price) * Number(it.qty);
-        const cost = costUnit * Number(it.qty);
-        dayTotal += rev;
-        dayCost += cost;
-        dayProfit += rev - cost;
-      }
-      acc.cost += dayCost;
-      acc.profit += dayProfit;
-      acc.total += dayTotal;
+  // Primer precio y último del período por producto
+  const byProduct = useMemo(() => {
+    const map = new Map<string, { code: string; name: string; count: number; first: number; last: number }>();
+    for (const c of [...shown].reverse()) {
+      const acc = map.get(c.code) ?? { code: c.code, name: c.name, count: 0, first: c.oldPrice, last: c.newPrice };
+      acc.count += 1;
+      acc.last = c.newPrice;
+      map.set(c.code, acc);
     }
-    return Array.from(map.entries()).sort((a,b)=> (a[0] < b[0] ? 1 : -1));
-  }, [filteredSales]);
+    return Array.from(map.values()).sort((a, b) => (pctChange(b.last, b.first) ?? 0) - (pctChange(a.last, a.first) ?? 0));
+  }, [shown]);
+
+  const exportCSV = () => {
+    const rows: (string | number)[][] = [
+      ["fecha", "codigo", "producto", "origen", "usuario", "coste_anterior", "coste_nuevo", "margen_anterior", "margen_nuevo", "precio_anterior", "precio_nuevo"],
+      ...shown.map((c) => [
+        fmtDateTime(c.at), c.code, c.name, priceChangeSourceLabel(c.source), c.user,
+        c.oldCost, c.newCost, c.oldMargin, c.newMargin, c.oldPrice, c.newPrice,
+      ]),
+    ];
+    downloadCSV(rows, `cambios_precio_${from}_${to}.csv`);
+  };
+
+  const sources: PriceChangeSource[] = ["manual", "bulk", "import", "receipt", "recipe"];
 
   return (
-    <div className="space-y-4">
-      <div className="flex items-center gap-2">
-        <span className="text-sm text-slate-600">Filtrar por pago:</span>
-        <div className="flex gap-2">
-          <button className={`px-3 py-1 rounded border ${filter==="all"?"bg-black text-white":""}`} onClick={()=>setFilter("all")}>TODO</button>
-          <button className={`px-3 py-1 rounded border ${filter==="cash"?"bg-black text-white":""}`} onClick={()=>setFilter("cash")}>Efectivo</button>
-          <button className={`px-3 py-1 rounded border ${filter==="transfer"?"bg-black text-white":""}`} onClick={()=>setFilter("transfer")}>Transferencia</button>
-        </div>
+    <div className="bg-white rounded-2xl border p-4 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <h2 className="text-lg font-semibold">Cambios de precio</h2>
+        <div className="flex-1" />
+        <select className="border rounded-lg p-2 text-sm" value={sourceFilter} onChange={(e)=>setSourceFilter(e.target.value as typeof sourceFilter)}>
+          <option value="all">Todos los orígenes</option>
+          {sources.map((s) => <option key={s} value={s}>{priceChangeSourceLabel(s)}</option>)}
+        </select>
+        <button className="border rounded-lg px-4 py-2 disabled:opacity-60" onClick={exportCSV} disabled={loading || shown.length === 0}>Exportar CSV</button>
       </div>
+      {loading && <p className="text-sm text-slate-500">Cargando cambios…</p>}
 
-      <div className="bg-white rounded-2xl border p-4 shadow-sm">
-        <h2 className="text-lg font-semibold mb-3">Balance por día</h2>
-        <div className="overflow-x-auto">
-          <table className="w-full min-w-[640px] text-sm">
+      {byProduct.length > 0 && (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
             <thead>
               <tr className="text-left border-b bg-gray-50">
-                <th className="py-2">Fecha</th>
-                <th className="py-2 text-right">Coste (ARS)</th>
-                <th className="py-2 text-right">Ganancia (ARS)</th>
-                <th className="py-2 text-right">Ventas (ARS)</th>
+                <th className="py-2">Producto</th>
+                <th className="py-2 text-right">Cambios</th>
+                <th className="py-2 text-right">Precio al inicio</th>
+                <th className="py-2 text-right">Precio al final</th>
+                <th className="py-2 text-right">Variación</th>
               </tr>
             </thead>
             <tbody>
-              {grouped.map(([d, v]) => (
-                <tr key={d} className="border-b">
-                  <td className="py-2">{d}</td>
-                  <td className="py-2 text-right">{peso(v.cost)}</td>
-                  <td className="py-2 text-right">{peso(v.profit)}</td>
-                  <td className="py-2 text-right">{peso(v.total)}</td>
+              {byProduct.map((p) => (
+                <tr key={p.code} className="border-b">
+                  <td className="py-2">{p.name} <span className="text-xs text-slate-400">{p.code}</span></td>
+                  <td className="py-2 text-right">{p.count}</td>
+                  <td className="py-2 text-right">{peso(p.first)}</td>
+                  <td className="py-2 text-right">{peso(p.last)}</td>
+                  <td className="py-2 text-right"><PriceDelta from={p.first} to={p.last} /></td>
                 </tr>
               ))}
-              {grouped.length === 0 && (
-                <tr><td colSpan={4} className="text-center text-slate-500 py-6">Sin ventas registradas</td></tr>
-              )}
             </tbody>
           </table>
         </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[760px] text-sm">
+          <thead>
+            <tr className="text-left border-b bg-gray-50">
+              <th className="py-2">Fecha</th>
+              <th className="py-2">Producto</th>
+              <th className="py-2">Origen</th>
+              <th className="py-2">Usuario</th>
+              <th className="py-2 text-right">Coste</th>
+              <th className="py-2 text-right">Margen</th>
+              <th className="py-2 text-right">Precio</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((c) => (
+              <tr key={c.id} className="border-b">
+                <td className="py-2 whitespace-nowrap">{fmtDateTime(c.at)}</td>
+                <td className="py-2">{c.name}</td>
+                <td className="py-2">{priceChangeSourceLabel(c.source)}</td>
+                <td className="py-2">{c.user}</td>
+                <td className="py-2 text-right whitespace-nowrap">{peso(c.oldCost)} → {peso(c.newCost)}</td>
+                <td className="py-2 text-right whitespace-nowrap">{c.oldMargin}% → {c.newMargin}%</td>
+                <td className="py-2 text-right whitespace-nowrap">{peso(c.oldPrice)} → <strong>{peso(c.newPrice)}</strong> <PriceDelta from={c.oldPrice} to={c.newPrice} /></td>
+              </tr>
+            ))}
+            {shown.length === 0 && (
+              <tr><td colSpan={7} className="text-center text-slate-500 py-6">Sin cambios de precio en el período</td></tr>
+            )}
+          </tbody>
+        </table>
       </div>
     </div>
   );
@@ -998,14 +6910,26 @@ function SettingsTab({
   onLogout,
   showShortcuts,
   onToggleShortcuts,
+  can,
+  categories,
+  products,
 }: {
   onLogout: () => void;
   showShortcuts: boolean;
   onToggleShortcuts: (v: boolean) => void;
+  can: Can;
+  categories: Category[];
+  products: Product[];
 }) {
   const [low, setLow] = useState<number>(5);
   const [lowProducts, setLowProducts] = useState<Product[]>([]);
+  const [lowCategory, setLowCategory] = useState(""); // "" = todas, "none" = sin categoría
+  const [expiryDays, setExpiryDays] = useState(7);
   const [panPricePerKg, setPanPricePerKg] = useState<number>(0);
+  const [scale, setScale] = useState<ScaleBarcodeConfig>(DEFAULT_SCALE_CONFIG);
+  const [receipt, setReceipt] = useState<ReceiptConfig>(DEFAULT_RECEIPT_CONFIG);
+  const [methods, setMethods] = useState<PaymentMethodDef[]>(DEFAULT_PAYMENT_METHODS);
+  const [newMethod, setNewMethod] = useState("");
   const [saving, setSaving] = useState(false);
 
   // Cargar config (umbral + precio/kg pan)
@@ -1015,6 +6939,9 @@ function SettingsTab({
       const data = d.data() as any;
       if (data?.lowStockThreshold != null) setLow(Number(data.lowStockThreshold));
       if (data?.panPricePerKg != null) setPanPricePerKg(Number(data.panPricePerKg));
+      if (data?.scaleBarcode) setScale({ ...DEFAULT_SCALE_CONFIG, ...data.scaleBarcode });
+      if (data?.receipt) setReceipt({ ...DEFAULT_RECEIPT_CONFIG, ...data.receipt });
+      setMethods(mergePaymentMethods(data?.paymentMethods));
     });
     return () => unsub();
   }, []);
@@ -1031,14 +6958,51 @@ function SettingsTab({
     return () => unsub();
   }, [low]);
 
+  const lowShown = lowCategory === "" ? lowProducts
+    : lowProducts.filter((p) => (lowCategory === "none" ? !p.category : p.category === lowCategory));
+  const expiring = expiringLots(products, expiryDays);
+
+  const writeOffExpiring = async (p: Product, lot: StockLot) => {
+    if (!confirm(`¿Dar de baja ${lot.qty} de ${p.name} (vence ${lot.expiry})?`)) return;
+    try {
+      await writeOffLot(p.code, lot.id);
+      toast.success("Lote dado de baja");
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo dar de baja el lote");
+    }
+  };
+
   const save = async () => {
+    if (!can("settings.edit")) { toast.error("No tenés permiso para cambiar la configuración"); return; }
     setSaving(true);
     const ref = doc(db, "settings", "config");
-    await setDoc(ref, { lowStockThreshold: Number(low||0), panPricePerKg: Number(panPricePerKg||0) }, { merge: true });
+    await setDoc(ref, {
+      lowStockThreshold: Number(low||0),
+      panPricePerKg: Number(panPricePerKg||0),
+      scaleBarcode: {
+        ...scale,
+        pluDigits: Math.max(1, Math.min(9, Number(scale.pluDigits||5))),
+        decimals: Math.max(0, Math.min(4, Number(scale.decimals||0))),
+      },
+      receipt,
+      paymentMethods: mergePaymentMethods(methods.map((m) => ({ ...m, label: m.label.trim() || m.key }))),
+    }, { merge: true });
     setSaving(false);
     toast.success("Configuración guardada");
   };
 
+  const updateMethod = (key: string, patch: Partial<PaymentMethodDef>) =>
+    setMethods((prev) => prev.map((m) => (m.key === key ? { ...m, ...patch } : m)));
+
+  const addMethod = () => {
+    const label = newMethod.trim();
+    if (!label) return;
+    const key = foldText(label).replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+    if (!key || methods.some((m) => m.key === key)) { toast.error("Ese medio de pago ya existe"); return; }
+    setMethods((prev) => [...prev, { key, label, hint: "", enabled: true }]);
+    setNewMethod("");
+  };
+
   return (
     <div className="space-y-6">
       <div className="bg-white rounded-2xl border p-4 shadow-sm">
@@ -1046,11 +7010,11 @@ function SettingsTab({
         <div className="grid sm:grid-cols-3 gap-3 items-end">
           <div>
             <label className="text-sm">Umbral de stock bajo (global)</label>
-            <input type="number" className="w-full border rounded-lg p-2 mt-1" value={low} onChange={(e)=>setLow(Number(e.target.value||0))} />
+            <input type="number" className="w-full border rounded-lg p-2 mt-1" value={low} disabled={!can("settings.edit")} onChange={(e)=>setLow(Number(e.target.value||0))} />
           </div>
           <div>
             <label className="text-sm">Precio por kilo de pan (ARS)</label>
-            <input type="number" className="w-full border rounded-lg p-2 mt-1" value={panPricePerKg} onChange={(e)=>setPanPricePerKg(Number(e.target.value||0))} />
+            <input type="number" className="w-full border rounded-lg p-2 mt-1" value={panPricePerKg} disabled={!can("settings.edit")} onChange={(e)=>setPanPricePerKg(Number(e.target.value||0))} />
           </div>
           <div className="flex gap-2 items-center">
             <label className="text-sm mr-2">Mostrar atajos</label>
@@ -1060,41 +7024,612 @@ function SettingsTab({
               checked={showShortcuts}
               onChange={(e)=>onToggleShortcuts(e.target.checked)}
             />
-            <button onClick={save} disabled={saving} className="ml-auto bg-black text-white rounded-lg px-4 py-2 disabled:opacity-60">{saving ? "Guardando..." : "Guardar"}</button>
+            <button onClick={save} disabled={saving || !can("settings.edit")} className="ml-auto bg-black text-white rounded-lg px-4 py-2 disabled:opacity-60">{saving ? "Guardando..." : "Guardar"}</button>
             <button onClick={onLogout} className="border rounded-lg px-4 py-2">Cerrar sesión</button>
           </div>
         </div>
       </div>
 
       <div className="bg-white rounded-2xl border p-4 shadow-sm">
-        <h3 className="text-lg font-semibold mb-2">Stock bajo</h3>
-        <p className="text-sm text-slate-500 mb-3">Productos con stock ≤ umbral</p>
+        <h3 className="text-lg font-semibold mb-1">Ticket</h3>
+        <p className="text-sm text-slate-500 mb-3">
+          HTML abre el diálogo de impresión del navegador; ESC/POS envía a una impresora térmica por puerto serie (o descarga el .bin).
+        </p>
+        <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-3 items-start">
+          <div>
+            <label className="text-sm">Nombre del local</label>
+            <input className="w-full border rounded-lg p-2 mt-1" value={receipt.storeName} disabled={!can("settings.edit")} onChange={(e)=>setReceipt({...receipt, storeName:e.target.value})} />
+          </div>
+          <div>
+            <label className="text-sm">Encabezado (dirección, CUIT…)</label>
+            <textarea rows={2} className="w-full border rounded-lg p-2 mt-1" value={receipt.headerLines} disabled={!can("settings.edit")} onChange={(e)=>setReceipt({...receipt, headerLines:e.target.value})} />
+          </div>
+          <div>
+            <label className="text-sm">Pie</label>
+            <textarea rows={2} className="w-full border rounded-lg p-2 mt-1" value={receipt.footer} disabled={!can("settings.edit")} onChange={(e)=>setReceipt({...receipt, footer:e.target.value})} />
+          </div>
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <select className="flex-1 border rounded-lg p-2" value={receipt.paperWidth} disabled={!can("settings.edit")} onChange={(e)=>setReceipt({...receipt, paperWidth:Number(e.target.value) === 58 ? 58 : 80})}>
+                <option value={58}>58 mm</option>
+                <option value={80}>80 mm</option>
+              </select>
+              <select className="flex-1 border rounded-lg p-2" value={receipt.output} disabled={!can("settings.edit")} onChange={(e)=>setReceipt({...receipt, output:e.target.value as ReceiptConfig["output"]})}>
+                <option value="html">HTML</option>
+                <option value="escpos">ESC/POS</option>
+              </select>
+            </div>
+            <label className="flex gap-2 items-center text-sm">
+              <input type="checkbox" className="w-5 h-5" checked={receipt.autoPrint} disabled={!can("settings.edit")} onChange={(e)=>setReceipt({...receipt, autoPrint:e.target.checked})} />
+              Imprimir al cobrar
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h3 className="text-lg font-semibold mb-1">Medios de pago</h3>
+        <p className="text-sm text-slate-500 mb-3">
+          Solo el efectivo suma al cajón; los demás medios se cuentan aparte en la caja. Guardá con el botón de arriba.
+        </p>
+        <div className="space-y-2">
+          {methods.map((m) => (
+            <div key={m.key} className="grid sm:grid-cols-[auto_1fr_1fr] gap-2 items-center">
+              <label className="flex gap-2 items-center text-sm w-28">
+                <input type="checkbox" className="w-5 h-5" checked={m.enabled} disabled={!can("settings.edit") || m.key === CASH_METHOD} onChange={(e)=>updateMethod(m.key, { enabled: e.target.checked })} />
+                <span className="font-mono text-xs text-slate-500">{m.key}</span>
+              </label>
+              <input className="border rounded-lg p-2" value={m.label} disabled={!can("settings.edit")} onChange={(e)=>updateMethod(m.key, { label: e.target.value })} />
+              <input className="border rounded-lg p-2" placeholder="Descripción" value={m.hint} disabled={!can("settings.edit")} onChange={(e)=>updateMethod(m.key, { hint: e.target.value })} />
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <input className="flex-1 border rounded-lg p-2" placeholder="Nuevo medio (ej. Cuenta DNI)" value={newMethod} disabled={!can("settings.edit")} onChange={(e)=>setNewMethod(e.target.value)} />
+            <button className="border rounded-lg px-4 py-2" disabled={!can("settings.edit")} onClick={addMethod}>Agregar</button>
+          </div>
+        </div>
+      </div>
+
+      <QuickKeysEditor products={products} categories={categories} can={can} />
+
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <h3 className="text-lg font-semibold mb-1">Etiquetas de balanza</h3>
+        <p className="text-sm text-slate-500 mb-3">
+          EAN-13 de peso/precio variable: prefijo (2 dígitos) + PLU + valor ({Math.max(0, 10 - Number(scale.pluDigits||0))} dígitos) + verificador.
+          El PLU se busca en el campo PLU del producto o en su código. Guardá con el botón de arriba.
+        </p>
+        <div className="grid sm:grid-cols-3 lg:grid-cols-6 gap-3 items-end">
+          <label className="flex gap-2 items-center text-sm">
+            <input type="checkbox" className="w-5 h-5" checked={scale.enabled} disabled={!can("settings.edit")} onChange={(e)=>setScale({...scale, enabled:e.target.checked})} />
+            Habilitar
+          </label>
+          <div>
+            <label className="text-sm">Prefijos</label>
+            <input className="w-full border rounded-lg p-2 mt-1" value={scale.prefixes} disabled={!can("settings.edit")} onChange={(e)=>setScale({...scale, prefixes:e.target.value})} placeholder="20-29" />
+          </div>
+          <div>
+            <label className="text-sm">Dígitos PLU</label>
+            <input type="number" className="w-full border rounded-lg p-2 mt-1" value={scale.pluDigits} disabled={!can("settings.edit")} onChange={(e)=>setScale({...scale, pluDigits:Number(e.target.value||0)})} />
+          </div>
+          <div>
+            <label className="text-sm">El valor es</label>
+            <select className="w-full border rounded-lg p-2 mt-1" value={scale.mode} disabled={!can("settings.edit")} onChange={(e)=>setScale({...scale, mode:e.target.value as ScaleBarcodeConfig["mode"]})}>
+              <option value="price">Precio (ARS)</option>
+              <option value="weight">Peso (kg)</option>
+            </select>
+          </div>
+          <div>
+            <label className="text-sm">Decimales</label>
+            <input type="number" className="w-full border rounded-lg p-2 mt-1" value={scale.decimals} disabled={!can("settings.edit")} onChange={(e)=>setScale({...scale, decimals:Number(e.target.value||0)})} />
+          </div>
+          <label className="flex gap-2 items-center text-sm">
+            <input type="checkbox" className="w-5 h-5" checked={scale.validateCheckDigit} disabled={!can("settings.edit")} onChange={(e)=>setScale({...scale, validateCheckDigit:e.target.checked})} />
+            Validar dígito verificador
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h3 className="text-lg font-semibold">Stock bajo</h3>
+            <p className="text-sm text-slate-500">Productos con stock ≤ umbral</p>
+          </div>
+          <select className="border rounded-lg p-2" value={lowCategory} onChange={(e)=>setLowCategory(e.target.value)}>
+            <option value="">Todas las categorías</option>
+            <option value="none">Sin categoría</option>
+            {categories.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </div>
         <div className="overflow-x-auto">
           <table className="w-full text-sm">
             <thead>
               <tr className="text-left border-b">
                 <th className="py-2">Producto</th>
                 <th className="py-2">Código</th>
+                <th className="py-2">Categoría</th>
                 <th className="py-2 text-right">Stock</th>
                 <th className="py-2 text-right">Umbral</th>
               </tr>
             </thead>
             <tbody>
-              {lowProducts.map((p) => (
+              {lowShown.map((p) => (
                 <tr key={p.code} className="border-b">
                   <td className="py-2">{p.name}</td>
                   <td className="py-2 font-mono">{p.code}</td>
+                  <td className="py-2">{categoryName(categories, p.category)}</td>
                   <td className="py-2 text-right">{p.stock}</td>
                   <td className="py-2 text-right">{p.lowThreshold ?? low}</td>
                 </tr>
               ))}
-              {lowProducts.length === 0 && (
-                <tr><td colSpan={4} className="text-center text-slate-500 py-6">No hay productos con stock bajo</td></tr>
+              {lowShown.length === 0 && (
+                <tr><td colSpan={5} className="text-center text-slate-500 py-6">No hay productos con stock bajo</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl border p-4 shadow-sm">
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h3 className="text-lg font-semibold">Próximos a vencer</h3>
+            <p className="text-sm text-slate-500">Lotes vencidos o que vencen en los próximos días</p>
+          </div>
+          <label className="text-sm flex items-center gap-2">
+            Días
+            <input type="number" min={0} className="w-20 border rounded-lg p-2" value={expiryDays} onChange={(e)=>setExpiryDays(Math.max(0, Number(e.target.value||0)))} />
+          </label>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2">Producto</th>
+                <th className="py-2">Código</th>
+                <th className="py-2">Vence</th>
+                <th className="py-2 text-right">Cantidad</th>
+                <th className="py-2 text-right"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {expiring.map(({ product: p, lot, expired }) => (
+                <tr key={`${p.code}-${lot.id}`} className={`border-b ${expired ? "text-red-600" : ""}`}>
+                  <td className="py-2">{p.name}</td>
+                  <td className="py-2 font-mono">{p.code}</td>
+                  <td className="py-2">{lot.expiry}{expired ? " (vencido)" : ""}</td>
+                  <td className="py-2 text-right">{fmtKg(lot.qty)}</td>
+                  <td className="py-2 text-right">
+                    {can("stock.editStock") && (
+                      <button className="border rounded-lg px-3 py-1" onClick={()=>writeOffExpiring(p, lot)}>Dar de baja</button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {expiring.length === 0 && (
+                <tr><td colSpan={5} className="text-center text-slate-500 py-6">No hay lotes próximos a vencer</td></tr>
               )}
             </tbody>
           </table>
         </div>
       </div>
+
+      {can("data.backup") && <BackupCard />}
+    </div>
+  );
+}
+
+// ====================== COPIA DE SEGURIDAD ======================
+// Subir la versión cuando cambie el formato del archivo; restore acepta versiones <= a esta
+const BACKUP_SCHEMA_VERSION = 1;
+const BACKUP_APP = "pos-panaderia";
+
+// Todas las colecciones que usa la app; las subcolecciones se leen por documento padre
+const BACKUP_COLLECTIONS: { path: string; label: string; sub?: string[] }[] = [
+  { path: "products", label: "Productos" },
+  { path: "categories", label: "Categorías" },
+  { path: "recipes", label: "Recetas" },
+  { path: "productions", label: "Producciones" },
+  { path: "promotions", label: "Promociones" },
+  { path: "receipts", label: "Recepciones" },
+  { path: "waste", label: "Mermas" },
+  { path: "stockMovements", label: "Movimientos de stock" },
+  { path: "priceChanges", label: "Cambios de precio" },
+  { path: "sales", label: "Ventas" },
+  { path: "dailySummaries", label: "Resúmenes diarios" },
+  { path: "cashSessions", label: "Cajas", sub: ["movements"] },
+  { path: "cashRegister", label: "Caja abierta" },
+  { path: "customers", label: "Clientes", sub: ["entries"] },
+  { path: "settings", label: "Configuración" },
+  { path: "userRoles", label: "Roles de usuarios" },
+  { path: "userPrefs", label: "Preferencias de usuarios" },
+];
+
+// Registros inmutables (las reglas no permiten modificarlos): lo que ya existe se conserva y nunca se borra
+const BACKUP_IMMUTABLE = new Set(["stockMovements", "priceChanges", "productions", "receipts", "waste", "cashSessions/movements", "customers/entries"]);
+
+type BackupDoc = { path: string; data: any };
+type BackupArchive = {
+  app: string;
+  schemaVersion: number;
+  createdAt: string;
+  createdBy: string;
+  projectId: string;
+  // clave: colección ("sales") o subcolección ("cashSessions/movements")
+  collections: Record<string, BackupDoc[]>;
+};
+
+// Los Timestamp y referencias no sobreviven a JSON.stringify: se guardan etiquetados
+function encodeBackupValue(v: any): any {
+  if (v instanceof Timestamp) return { __type: "timestamp", seconds: v.seconds, nanoseconds: v.nanoseconds };
+  if (v instanceof DocumentReference) return { __type: "ref", path: v.path };
+  if (Array.isArray(v)) return v.map(encodeBackupValue);
+  if (v && typeof v === "object") return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, encodeBackupValue(x)]));
+  return v;
+}
+function decodeBackupValue(v: any): any {
+  if (Array.isArray(v)) return v.map(decodeBackupValue);
+  if (v && typeof v === "object") {
+    if (v.__type === "timestamp") return new Timestamp(Number(v.seconds), Number(v.nanoseconds || 0));
+    if (v.__type === "ref") return doc(db, v.path);
+    return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, decodeBackupValue(x)]));
+  }
+  return v;
+}
+
+// base: una colección o un collectionGroup (subcolecciones de todos los padres en una sola consulta paginada)
+async function readAllDocs(base: Query, onPage: (n: number) => void) {
+  const out: QueryDocumentSnapshot[] = [];
+  let last: QueryDocumentSnapshot | null = null;
+  for (;;) {
+    const qy: Query = last
+      ? query(base, orderBy(documentId()), startAfter(last), limit(BATCH_LIMIT))
+      : query(base, orderBy(documentId()), limit(BATCH_LIMIT));
+    const page = await getDocs(qy);
+    out.push(...page.docs);
+    onPage(page.size);
+    if (page.size < BATCH_LIMIT) break;
+    last = page.docs[page.docs.length - 1];
+  }
+  return out;
+}
+
+// Subcolección `sub` de todos los documentos de `path` (otro padre con una subcolección del mismo nombre no entra)
+async function readAllSubDocs(path: string, sub: string, onPage: (n: number) => void) {
+  const docs = await readAllDocs(collectionGroup(db, sub), onPage);
+  return docs.filter((d) => d.ref.parent.parent?.parent.path === path);
+}
+
+async function createBackup(onProgress: (docsRead: number) => void): Promise<BackupArchive> {
+  let read = 0;
+  const tick = (n: number) => { read += n; onProgress(read); };
+  const collections: Record<string, BackupDoc[]> = {};
+  for (const c of BACKUP_COLLECTIONS) {
+    const docs = await readAllDocs(collection(db, c.path), tick);
+    collections[c.path] = docs.map((d) => ({ path: d.ref.path, data: encodeBackupValue(d.data()) }));
+    for (const sub of c.sub ?? []) {
+      const children = await readAllSubDocs(c.path, sub, tick);
+      collections[`${c.path}/${sub}`] = children.map((d) => ({ path: d.ref.path, data: encodeBackupValue(d.data()) }));
+    }
+  }
+  return {
+    app: BACKUP_APP,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    createdBy: auth.currentUser?.email ?? "desconocido",
+    projectId: db.app.options.projectId ?? "",
+    collections,
+  };
+}
+
+// Devuelve la lista de problemas; vacía si el archivo se puede restaurar
+function validateBackup(a: any): string[] {
+  const errors: string[] = [];
+  if (!a || typeof a !== "object") return ["El archivo no es una copia de seguridad"];
+  if (a.app !== BACKUP_APP) errors.push("El archivo no es una copia de esta aplicación");
+  if (typeof a.schemaVersion !== "number") errors.push("Falta la versión del formato");
+  else if (a.schemaVersion > BACKUP_SCHEMA_VERSION) errors.push(`La copia es de una versión más nueva (${a.schemaVersion}); actualizá la aplicación`);
+  if (!a.collections || typeof a.collections !== "object") return [...errors, "La copia no tiene colecciones"];
+  const known = new Set(BACKUP_COLLECTIONS.flatMap((c) => [c.path, ...(c.sub ?? []).map((s) => `${c.path}/${s}`)]));
+  for (const [key, docs] of Object.entries<any>(a.collections)) {
+    if (!known.has(key)) { errors.push(`Colección desconocida: ${key}`); continue; }
+    if (!Array.isArray(docs)) { errors.push(`${key}: formato inválido`); continue; }
+    const [col, sub] = key.split("/");
+    docs.forEach((d: any, i: number) => {
+      const parts = typeof d?.path === "string" ? d.path.split("/") : [];
+      const ok = sub
+        ? parts.length === 4 && parts[0] === col && parts[2] === sub && parts.every(Boolean)
+        : parts.length === 2 && parts[0] === col && parts.every(Boolean);
+      if (!ok) errors.push(`${key} #${i + 1}: ruta inválida`);
+      else if (!d.data || typeof d.data !== "object" || Array.isArray(d.data)) errors.push(`${d.path}: datos inválidos`);
+    });
+  }
+  return errors.slice(0, 20);
+}
+
+type RestorePlanRow = { key: string; label: string; inArchive: number; existing: number; overwritten: string[]; extra: string[] };
+
+// Compara la copia con lo que hay en el proyecto: qué se pisa y qué sobra
+async function planRestore(a: BackupArchive, onProgress: (docsRead: number) => void): Promise<RestorePlanRow[]> {
+  let read = 0;
+  const tick = (n: number) => { read += n; onProgress(read); };
+  const rows: RestorePlanRow[] = [];
+  for (const c of BACKUP_COLLECTIONS) {
+    const existingDocs = await readAllDocs(collection(db, c.path), tick);
+    const groups: { key: string; label: string; existing: string[] }[] = [
+      { key: c.path, label: c.label, existing: existingDocs.map((d) => d.ref.path) },
+    ];
+    for (const sub of c.sub ?? []) {
+      const key = `${c.path}/${sub}`;
+      const existing = (await readAllSubDocs(c.path, sub, tick)).map((d) => d.ref.path);
+      groups.push({ key, label: `${c.label} · ${sub === "movements" ? "movimientos" : "cuenta corriente"}`, existing });
+    }
+    for (const g of groups) {
+      const archived = new Set((a.collections[g.key] ?? []).map((d) => d.path));
+      rows.push({
+        key: g.key,
+        label: g.label,
+        inArchive: archived.size,
+        existing: g.existing.length,
+        overwritten: g.existing.filter((p) => archived.has(p)),
+        extra: g.existing.filter((p) => !archived.has(p)),
+      });
+    }
+  }
+  return rows;
+}
+
+async function restoreBackup(
+  a: BackupArchive,
+  plan: RestorePlanRow[],
+  keys: Set<string>,
+  deleteExtra: boolean,
+  onProgress: (written: number) => void,
+) {
+  // El rol de quien restaura nunca se pisa: podría quedarse sin acceso a mitad de camino
+  const ownRole = `userRoles/${auth.currentUser?.uid}`;
+  const writes: ((b: ReturnType<typeof writeBatch>) => void)[] = [];
+  for (const row of plan) {
+    if (!keys.has(row.key)) continue;
+    const immutable = BACKUP_IMMUTABLE.has(row.key);
+    const existing = new Set(row.overwritten);
+    for (const d of a.collections[row.key] ?? []) {
+      if (d.path === ownRole || (immutable && existing.has(d.path))) continue;
+      writes.push((b) => b.set(doc(db, d.path), decodeBackupValue(d.data)));
+    }
+    if (deleteExtra && !immutable) row.extra.filter((p) => p !== ownRole).forEach((p) => writes.push((b) => b.delete(doc(db, p))));
+  }
+  let done = 0;
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    const chunk = writes.slice(i, i + BATCH_LIMIT);
+    chunk.forEach((w) => w(batch));
+    await batch.commit();
+    done += chunk.length;
+    onProgress(done);
+  }
+  return done;
+}
+
+function BackupCard() {
+  const [progress, setProgress] = useState<string | null>(null);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [plan, setPlan] = useState<RestorePlanRow[] | null>(null);
+  const [keys, setKeys] = useState<Set<string>>(new Set());
+  const [deleteExtra, setDeleteExtra] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const busy = progress != null;
+
+  const download = async () => {
+    setProgress("Leyendo… 0 documentos");
+    try {
+      const a = await createBackup((n) => setProgress(`Leyendo… ${n} documentos`));
+      const blob = new Blob([JSON.stringify(a)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url; link.download = `backup_${a.projectId || "pos"}_${new Date().toISOString().slice(0,10)}.json`; link.click();
+      URL.revokeObjectURL(url);
+      const total = Object.values(a.collections).reduce((acc, d) => acc + d.length, 0);
+      toast.success(`Copia descargada: ${total} documentos`);
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo generar la copia");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const onFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]; if (!file) return;
+    e.target.value = "";
+    setArchive(null); setPlan(null); setErrors([]); setDeleteExtra(false);
+    const reader = new FileReader();
+    reader.onload = async () => {
+      let parsed: any;
+      try { parsed = JSON.parse(String(reader.result)); } catch { setErrors(["El archivo no es un JSON válido"]); return; }
+      const problems = validateBackup(parsed);
+      setFileName(file.name);
+      if (problems.length) { setErrors(problems); return; }
+      const a = parsed as BackupArchive;
+      setArchive(a);
+      setProgress("Comparando con el proyecto… 0 documentos");
+      try {
+        const p = await planRestore(a, (n) => setProgress(`Comparando con el proyecto… ${n} documentos`));
+        setPlan(p);
+        setKeys(new Set(p.filter((r) => r.inArchive > 0).map((r) => r.key)));
+      } catch (err: any) {
+        toast.error(err?.message || "No se pudo leer el proyecto actual");
+      } finally {
+        setProgress(null);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const selectedRows = (plan ?? []).filter((r) => keys.has(r.key));
+  const immutable = (r: RestorePlanRow) => BACKUP_IMMUTABLE.has(r.key);
+  const toWrite = selectedRows.reduce((acc, r) => acc + r.inArchive - (immutable(r) ? r.overwritten.length : 0), 0);
+  const toOverwrite = selectedRows.reduce((acc, r) => acc + (immutable(r) ? 0 : r.overwritten.length), 0);
+  const toDelete = deleteExtra ? selectedRows.reduce((acc, r) => acc + (immutable(r) ? 0 : r.extra.length), 0) : 0;
+
+  const restore = async () => {
+    if (!archive || !plan) return;
+    const typed = prompt(`Se escriben ${toWrite} documentos (${toOverwrite} se pisan)${toDelete ? ` y se borran ${toDelete}` : ""}. Escribí RESTAURAR para continuar.`);
+    if (typed !== "RESTAURAR") return;
+    setProgress("Restaurando… 0");
+    try {
+      const n = await restoreBackup(archive, plan, keys, deleteExtra, (w) => setProgress(`Restaurando… ${w}`));
+      toast.success(`Restauración terminada: ${n} escrituras`);
+      setArchive(null); setPlan(null);
+    } catch (err: any) {
+      toast.error(err?.message || "La restauración se interrumpió; podés volver a ejecutarla");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border p-4 shadow-sm">
+      <h3 className="text-lg font-semibold mb-1">Copia de seguridad</h3>
+      <p className="text-sm text-slate-500 mb-3">
+        Descarga todas las colecciones (ventas, stock, caja, clientes, ajustes, usuarios…) en un archivo JSON versionado.
+        Se puede restaurar en este proyecto o en uno nuevo de Firebase.
+      </p>
+      <div className="flex flex-wrap gap-2 items-center mb-3">
+        <button className="bg-black text-white rounded-lg px-4 py-2 disabled:opacity-60" onClick={download} disabled={busy}>Descargar copia</button>
+        <input type="file" accept="application/json,.json" ref={fileRef} className="hidden" onChange={onFile} />
+        <button className="border rounded-lg px-4 py-2 disabled:opacity-60" onClick={()=>fileRef.current?.click()} disabled={busy}>Restaurar desde archivo…</button>
+        {progress && <span className="text-sm text-slate-500">{progress}</span>}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="border border-red-200 bg-red-50 rounded-xl p-3 text-sm text-red-700 mb-3">
+          <p className="font-semibold">No se puede restaurar {fileName}:</p>
+          {errors.map((e, i) => <div key={i}>{e}</div>)}
+        </div>
+      )}
+
+      {archive && plan && (
+        <div className="space-y-3">
+          <p className="text-sm">
+            <strong>{fileName}</strong> · creada {fmtDateTime(archive.createdAt)} por {archive.createdBy}
+            {archive.projectId && ` en el proyecto ${archive.projectId}`} · formato v{archive.schemaVersion}
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b bg-gray-50">
+                <th className="py-2"></th>
+                <th className="py-2">Colección</th>
+                <th className="py-2 text-right">En la copia</th>
+                <th className="py-2 text-right">En el proyecto</th>
+                <th className="py-2 text-right">Se pisan</th>
+                <th className="py-2 text-right">No están en la copia</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.map((r) => (
+                <tr key={r.key} className={`border-b ${keys.has(r.key) ? "" : "text-slate-400"}`}>
+                  <td className="py-1">
+                    <input type="checkbox" checked={keys.has(r.key)} onChange={(e)=>setKeys((prev) => {
+                      const next = new Set(prev);
+                      if (e.target.checked) next.add(r.key); else next.delete(r.key);
+                      return next;
+                    })} />
+                  </td>
+                  <td className="py-1">{r.label}</td>
+                  <td className="py-1 text-right">{r.inArchive}</td>
+                  <td className="py-1 text-right">{r.existing}</td>
+                  <td className={`py-1 text-right ${r.overwritten.length && !immutable(r) ? "text-amber-700 font-semibold" : ""}`}>
+                    {immutable(r) && r.overwritten.length ? `${r.overwritten.length} (se conservan)` : r.overwritten.length}
+                  </td>
+                  <td className={`py-1 text-right ${deleteExtra && r.extra.length && !immutable(r) ? "text-red-600 font-semibold" : ""}`}>{r.extra.length}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={deleteExtra} onChange={(e)=>setDeleteExtra(e.target.checked)} />
+            Borrar de las colecciones elegidas lo que no esté en la copia (deja el proyecto igual a la copia)
+          </label>
+          <p className="text-xs text-slate-500">Tu propio rol de usuario no se modifica. Los registros inmutables (movimientos de stock, producciones, recepciones, movimientos de caja y de cuenta corriente) que ya existen se conservan y nunca se borran.</p>
+          <div className="flex gap-2">
+            <button className="border rounded-lg px-4 py-2" onClick={()=>{ setArchive(null); setPlan(null); }} disabled={busy}>Cancelar</button>
+            <button className="bg-red-600 text-white rounded-lg px-4 py-2 disabled:opacity-60" onClick={restore} disabled={busy || toWrite + toDelete === 0}>
+              Restaurar {toWrite} documentos
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ====================== USUARIOS Y ROLES ======================
+function UsersTab({ currentUid }: { currentUid: string }) {
+  const [users, setUsers] = useState<UserRole[]>([]);
+
+  useEffect(() => {
+    const unsub = onSnapshot(collection(db, "userRoles"), (snap) => {
+      const arr: UserRole[] = [];
+      snap.forEach((d) => {
+        const data: any = d.data();
+        arr.push({ uid: d.id, email: data.email || "", role: (data.role as Role) || "cashier" });
+      });
+      arr.sort((a, b) => a.email.localeCompare(b.email));
+      setUsers(arr);
+    });
+    return () => unsub();
+  }, []);
+
+  const changeRole = async (u: UserRole, role: Role) => {
+    if (u.uid === currentUid && role !== "owner") {
+      toast.error("No podés quitarte el rol de dueño/a");
+      return;
+    }
+    try {
+      await updateDoc(doc(db, "userRoles", u.uid), {
+        role,
+        updatedAt: serverTimestamp(),
+        updatedBy: auth.currentUser?.email ?? "desconocido",
+      });
+      toast.success(`${u.email}: ${roleLabel(role)}`);
+    } catch (err: any) {
+      toast.error(err?.message || "No se pudo cambiar el rol");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border p-4 shadow-sm">
+      <h2 className="text-lg font-semibold mb-1">Usuarios y roles</h2>
+      <p className="text-sm text-slate-500 mb-3">Los usuarios nuevos ingresan como cajero/a. Asigná el rol que corresponda.</p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="py-2">Email</th>
+              <th className="py-2">Rol</th>
+              <th className="py-2">Permisos</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((u) => (
+              <tr key={u.uid} className="border-b">
+                <td className="py-2">{u.email}{u.uid === currentUid && <span className="text-xs text-slate-500"> (vos)</span>}</td>
+                <td className="py-2">
+                  <select className="border rounded-lg p-1" value={u.role} onChange={(e)=>changeRole(u, e.target.value as Role)}>
+                    {ROLES.map((r) => <option key={r} value={r}>{roleLabel(r)}</option>)}
+                  </select>
+                </td>
+                <td className="py-2 text-xs text-slate-500">{ROLE_PERMISSIONS[u.role].join(", ")}</td>
+              </tr>
+            ))}
+            {users.length === 0 && (
+              <tr><td colSpan={3} className="text-center text-slate-500 py-6">Sin usuarios</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
     </div>
   );
 }
@@ -1103,18 +7638,44 @@ function SettingsTab({
 export default function App() {
   const { ready, user } = useAuthSession();
   const products = useProducts();
-  const [sales, setSales] = useSales();
-  const onSaleRecorded = (sale: Sale) => setSales((prev) => [sale, ...prev]);
+  const cashSession = useOpenCashSession();
+  const recipes = useRecipes();
+  const promotions = usePromotions();
+  const categories = useCategories();
+  const customers = useCustomers();
+  const { pending, failed, online, syncing, enqueue, sync, retryFailed, discardFailed } = usePendingSales(!!user);
+
+  // Mientras haya ventas en cola, el POS ve el stock ya descontado y el historial las muestra
+  const posProducts = useMemo(() => {
+    if (pending.length === 0) return products;
+    const used = new Map<string, number>();
+    pending.forEach((p) => p.items.forEach((i) => {
+      if (i.code !== "PAN") used.set(i.code, roundKg((used.get(i.code) || 0) + stockQtyOf(i)));
+    }));
+    return products.map((p) => (used.has(p.code) ? { ...p, stock: roundKg((p.stock || 0) - used.get(p.code)!) } : p));
+  }, [products, pending]);
+  const queuedSales = useMemo(() => pending.map(pendingToSale).reverse(), [pending]);
 
-  const [tab, setTab] = useState<"stock"|"pos"|"historial"|"ajustes"|"balance">("pos");
+  const { ready: roleReady, role } = useUserRole(user);
+  const can: Can = (p) => hasPermission(role, p);
 
-  // cargar precio/kg pan (settings/config.panPricePerKg)
+  const [tab, setTab] = useState<TabKey>("pos");
+
+  // cargar precio/kg pan (settings/config.panPricePerKg) y etiquetas de balanza
   const [panPricePerKg, setPanPricePerKg] = useState<number>(0);
+  const [scaleConfig, setScaleConfig] = useState<ScaleBarcodeConfig>(DEFAULT_SCALE_CONFIG);
+  const [receiptConfig, setReceiptConfig] = useState<ReceiptConfig>(DEFAULT_RECEIPT_CONFIG);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethodDef[]>(DEFAULT_PAYMENT_METHODS);
+  const [quickKeys, setQuickKeys] = useState<QuickKeyPage[]>([]);
   useEffect(() => {
     const ref = doc(db, "settings", "config");
     const unsub = onSnapshot(ref, (d) => {
       const data = d.data() as any;
       setPanPricePerKg(Number(data?.panPricePerKg || 0));
+      setScaleConfig({ ...DEFAULT_SCALE_CONFIG, ...(data?.scaleBarcode || {}) });
+      setReceiptConfig({ ...DEFAULT_RECEIPT_CONFIG, ...(data?.receipt || {}) });
+      setPaymentMethods(mergePaymentMethods(data?.paymentMethods));
+      setQuickKeys(data?.quickKeys ?? []);
     });
     return () => unsub();
   }, []);
@@ -1143,9 +7704,10 @@ export default function App() {
 
   if (!ready) return <div className="min-h-screen grid place-items-center text-slate-500">Cargando…</div>;
   if (!user) return <Login onLogin={()=>{}} />;
+  if (!roleReady) return <div className="min-h-screen grid place-items-center text-slate-500">Cargando permisos…</div>;
 
   const email = user.email as string | undefined;
-  const canSeeBalance = email === "clau@pana.com";
+  const visibleTabs = TABS.filter((t) => can(t.perm));
 
   return (
     <div className="min-h-screen">
@@ -1154,7 +7716,16 @@ export default function App() {
           <motion.h1 initial={{ opacity: 0, y: -6 }} animate={{ opacity: 1, y: 0 }} className="text-2xl font-semibold tracking-tight">
             L'Clau Panadería
           </motion.h1>
-          <div className="text-sm text-slate-600">Sesión: <strong>{email}</strong></div>
+          <div className="flex items-center gap-3 text-sm text-slate-600">
+            {!online && <span className="px-2 py-0.5 rounded bg-red-100 text-red-700 text-xs font-semibold">SIN CONEXIÓN</span>}
+            {pending.length > 0 && (
+              <button className="px-2 py-0.5 rounded bg-amber-100 text-amber-800 text-xs font-semibold disabled:opacity-60"
+                disabled={!online || syncing} onClick={()=>sync()} title="Sincronizar ahora">
+                {syncing ? "Sincronizando…" : `${pending.length} venta${pending.length === 1 ? "" : "s"} pendiente${pending.length === 1 ? "" : "s"} de sincronizar`}
+              </button>
+            )}
+            <div>Sesión: <strong>{email}</strong>{role && <> · {roleLabel(role)}</>}</div>
+          </div>
         </div>
 
         {/* Banner de atajos (visible en todas las pestañas si la usuaria lo activó) */}
@@ -1162,23 +7733,32 @@ export default function App() {
       </header>
 
       <main className="max-w-7xl mx-auto p-4 space-y-6">
-        <div className="grid grid-cols-5 gap-2 max-w-2xl">
-          <button className={`rounded-lg py-2 border ${tab==="stock"?"bg-black text-white":""}`} onClick={()=>setTab("stock")}>Stock</button>
-          <button className={`rounded-lg py-2 border ${tab==="pos"?"bg-black text-white":""}`} onClick={()=>setTab("pos")}>Punto de Venta</button>
-          <button className={`rounded-lg py-2 border ${tab==="historial"?"bg-black text-white":""}`} onClick={()=>setTab("historial")}>Historial</button>
-          <button className={`rounded-lg py-2 border ${tab==="ajustes"?"bg-black text-white":""}`} onClick={()=>setTab("ajustes")}>Ajustes</button>
-          {canSeeBalance ? (
-            <button className={`rounded-lg py-2 border ${tab==="balance"?"bg-black text-white":""}`} onClick={()=>setTab("balance")}>Balance</button>
-          ) : (
-            <div /> // espacio para mantener layout
-          )}
+        {!role && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-900 rounded-lg p-3 text-sm">
+            Tu usuario no tiene un rol asignado. Pedile a un dueño/a que te habilite.
+            <button onClick={logout} className="ml-3 border rounded-lg px-3 py-1 bg-white">Cerrar sesión</button>
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {visibleTabs.map((t) => (
+            <button key={t.key} className={`rounded-lg py-2 px-4 border ${tab===t.key?"bg-black text-white":""}`} onClick={()=>setTab(t.key)}>{t.label}</button>
+          ))}
         </div>
 
-        {tab==="stock" && <StockTab products={products} />}
-        {tab==="pos" && <POSTab products={products} onSaleRecorded={onSaleRecorded} pricePerKg={panPricePerKg} />}
-        {tab==="historial" && <HistoryTab sales={sales} />}
-        {tab==="ajustes" && <SettingsTab onLogout={logout} showShortcuts={showShortcuts} onToggleShortcuts={toggleShortcuts} />}
-        {tab==="balance" && canSeeBalance && <BalanceTab />}
+        {tab==="stock" && can("stock.view") && <StockTab products={products} categories={categories} can={can} />}
+        {tab==="recepcion" && can("stock.receive") && <ReceivingTab products={products} />}
+        {tab==="merma" && can("stock.waste") && <WasteTab products={products} />}
+        {tab==="produccion" && can("production.manage") && <ProductionTab products={products} recipes={recipes} />}
+        {tab==="promos" && can("promotions.manage") && <PromotionsTab products={products} categories={categories} promotions={promotions} paymentMethods={paymentMethods} />}
+        {tab==="pos" && can("pos.sell") && <FailedSalesCard failed={failed} onRetry={retryFailed} onDiscard={discardFailed} />}
+        {tab==="pos" && can("pos.sell") && <POSTab products={posProducts} onQueueSale={enqueue} pricePerKg={panPricePerKg} cashSession={cashSession} scaleConfig={scaleConfig} receiptConfig={receiptConfig} paymentMethods={paymentMethods} promotions={promotions} quickKeys={quickKeys} categories={categories} customers={customers} />}
+        {tab==="caja" && can("cash.operate") && <CashTab session={cashSession} />}
+        {tab==="clientes" && can("customers.view") && <CustomersTab customers={customers} cashSession={cashSession} paymentMethods={paymentMethods} can={can} />}
+        {tab==="historial" && can("history.view") && <HistoryTab queued={queuedSales} can={can} cashSession={cashSession} receiptConfig={receiptConfig} paymentMethods={paymentMethods} />}
+        {tab==="ajustes" && can("settings.view") && <SettingsTab onLogout={logout} showShortcuts={showShortcuts} onToggleShortcuts={toggleShortcuts} can={can} categories={categories} products={products} />}
+        {tab==="balance" && can("balance.view") && <BalanceTab paymentMethods={paymentMethods} products={products} categories={categories} />}
+        {tab==="reportes" && can("balance.view") && <ReportsTab products={products} />}
+        {tab==="usuarios" && can("users.manage") && <UsersTab currentUid={user.uid} />}
       </main>
 
       <footer className="max-w-7xl mx-auto p-4 text-xs text-slate-500">
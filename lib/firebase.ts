@@ -1,6 +1,13 @@
 import { getApps, initializeApp } from "firebase/app";
 import { getAuth } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import {
+  getFirestore,
+  initializeFirestore,
+  memoryLocalCache,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  type Firestore,
+} from "firebase/firestore";
 
 const config = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY as string,
@@ -17,4 +24,18 @@ if (!config.apiKey) {
 
 const app = getApps().length ? getApps()[0] : initializeApp(config);
 export const auth = getAuth(app);
-export const db = getFirestore(app);
+
+// En el navegador el catálogo y los listeners quedan cacheados en IndexedDB para poder vender sin conexión
+function createDb(): Firestore {
+  try {
+    return initializeFirestore(app, {
+      localCache: typeof window !== "undefined"
+        ? persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+        : memoryLocalCache(),
+    });
+  } catch {
+    // ya inicializado (hot reload)
+    return getFirestore(app);
+  }
+}
+export const db = createDb();